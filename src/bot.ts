@@ -1,13 +1,40 @@
-import { Client, Events, GatewayIntentBits, type Message } from "discord.js";
-import { config, validateConfig } from "./config";
+import {
+    Client,
+    Events,
+    GatewayIntentBits,
+    MessageFlags,
+    type ButtonInteraction,
+    type EmbedBuilder,
+    type Interaction,
+    type Message,
+    type RepliableInteraction,
+} from "discord.js";
+import { config, getIgnoredContexts, validateConfig } from "./config";
 import { logger } from "./utils/logger";
 import { NFTService } from "./services/nft.service";
 import { EmbedGeneratorService } from "./services/embed-generator.service";
+import { PreviewService } from "./services/preview.service";
+import { SalesFeedService } from "./services/sales-feed.service";
+import { ArtistWatchService } from "./services/artist-watch.service";
+import { FloorAlertService } from "./services/floor-alert.service";
+import { ReminderService } from "./services/reminder.service";
+import { WatchlistService } from "./services/watchlist.service";
+import { CooldownTracker } from "./utils/cooldown";
+import { deployCommands, getCommand } from "./commands";
+import type { CommandContext } from "./types";
 
 export class DiscordTezosBot {
     private readonly client: Client;
     private readonly nftService: NFTService;
     private readonly embedService: EmbedGeneratorService;
+    private readonly previewService: PreviewService;
+    private readonly salesFeedService: SalesFeedService;
+    private readonly artistWatchService: ArtistWatchService;
+    private readonly floorAlertService: FloorAlertService;
+    private readonly reminderService: ReminderService;
+    private readonly watchlistService: WatchlistService;
+    private readonly commandContext: CommandContext;
+    private readonly cooldowns = new CooldownTracker();
 
     constructor() {
         // Initialize Discord client with required intents
@@ -18,6 +45,22 @@ export class DiscordTezosBot {
         // Initialize services
         this.nftService = new NFTService();
         this.embedService = new EmbedGeneratorService(this.client);
+        this.previewService = new PreviewService(this.nftService, this.embedService);
+        this.salesFeedService = new SalesFeedService(this.client, this.embedService);
+        this.artistWatchService = new ArtistWatchService(this.client, this.nftService, this.embedService);
+        this.floorAlertService = new FloorAlertService(this.client, this.embedService);
+        this.reminderService = new ReminderService(this.client, this.nftService, this.embedService);
+        this.watchlistService = new WatchlistService(this.client, this.embedService);
+        this.commandContext = {
+            nftService: this.nftService,
+            embedService: this.embedService,
+            previewService: this.previewService,
+            salesFeedService: this.salesFeedService,
+            artistWatchService: this.artistWatchService,
+            floorAlertService: this.floorAlertService,
+            reminderService: this.reminderService,
+            watchlistService: this.watchlistService,
+        };
 
         // Set up event handlers
         this.setupEventHandlers();
@@ -31,6 +74,13 @@ export class DiscordTezosBot {
         this.client.once(Events.ClientReady, (readyClient) => {
             logger.info(`✅ Discord bot ready! Logged in as ${readyClient.user.tag}`);
             logger.info(`🤖 Bot is active in ${readyClient.guilds.cache.size} guild(s)`);
+
+            // Background jobs post to channels, so they start once the client is ready
+            this.salesFeedService.start();
+            this.artistWatchService.start();
+            this.floorAlertService.start();
+            this.reminderService.start();
+            this.watchlistService.start();
         });
 
         // Message create event
@@ -38,6 +88,11 @@ export class DiscordTezosBot {
             await this.handleMessage(message);
         });
 
+        // Slash command and autocomplete event
+        this.client.on(Events.InteractionCreate, async (interaction) => {
+            await this.handleInteraction(interaction);
+        });
+
         // Guild join event
         this.client.on(Events.GuildCreate, (guild) => {
             logger.info(`🎉 Bot added to new guild: "${guild.name}" (ID: ${guild.id})`);
@@ -94,24 +149,24 @@ export class DiscordTezosBot {
 
             logger.info(`Processing message: "${message.content}" from ${message.author.tag}`);
 
-            // Check for both NFT and collection links
-            const nftResult = await this.nftService.processMessage(message.content);
-            const collectionResult = await this.nftService.processCollections(message.content);
-
-            const hasNFTs = nftResult.success && nftResult.data && nftResult.data.length > 0;
-            const hasCollections =
-                collectionResult.success && collectionResult.data && collectionResult.data.length > 0;
+            // Check for NFT, collection, profile and operation links, skipping the markdown regions this guild ignores
+            const results = await this.previewService.fetchPreviews(
+                message.content,
+                getIgnoredContexts(message.guildId)
+            );
 
-            if (!hasNFTs && !hasCollections) {
+            if (this.previewService.countPreviews(results) === 0) {
                 // No links found or error occurred - don't spam the channel
-                logger.debug(`No NFT or collection links detected or processing failed`);
+                logger.debug(`No NFT, collection, profile or operation links detected or processing failed`);
                 return;
             }
 
             logger.info(
-                `Processing ${hasNFTs ? nftResult.data?.length || 0 : 0} NFT(s) and ${
-                    hasCollections ? collectionResult.data?.length || 0 : 0
-                } collection(s) for message in ${message.guild?.name || "DM"} by ${message.author.tag}`
+                `Processing ${results.nfts.length} NFT(s), ${results.collections.length} collection(s), ${
+                    results.profiles.length
+                } profile(s) and ${results.operations.length} operation(s) for message in ${
+                    message.guild?.name || "DM"
+                } by ${message.author.tag}`
             );
 
             // Send loading message
@@ -119,42 +174,17 @@ export class DiscordTezosBot {
             const loadingMessage = await message.reply({ embeds: [loadingEmbed] });
 
             try {
-                const embeds = [];
-
-                // Process NFTs
-                if (hasNFTs && nftResult.data) {
-                    for (const nft of nftResult.data) {
-                        const embed = this.embedService.createNFTEmbed(nft);
-
-                        if (this.embedService.validateEmbed(embed)) {
-                            embeds.push(embed);
-                        } else {
-                            logger.warn("Invalid NFT embed generated, skipping");
-                        }
-                    }
-                }
-
-                // Process Collections
-                if (hasCollections && collectionResult.data) {
-                    for (const collection of collectionResult.data) {
-                        const embed = this.embedService.createCollectionEmbed(collection);
-
-                        if (this.embedService.validateEmbed(embed)) {
-                            embeds.push(embed);
-                        } else {
-                            logger.warn("Invalid collection embed generated, skipping");
-                        }
-                    }
-                }
+                const embedsToSend = this.previewService.createPreviewEmbeds(results);
 
-                if (embeds.length === 0) {
+                if (embedsToSend.length === 0) {
                     throw new Error("No valid embeds could be generated");
                 }
 
                 // Update the loading message with NFT previews
-                // Discord allows up to 10 embeds per message
-                const embedsToSend = embeds.slice(0, 10);
-                await loadingMessage.edit({ embeds: embedsToSend });
+                await loadingMessage.edit({
+                    embeds: embedsToSend,
+                    components: this.previewService.createPreviewComponents(results),
+                });
 
                 logger.info(`Successfully sent ${embedsToSend.length} NFT preview(s)`);
             } catch (error) {
@@ -184,6 +214,136 @@ export class DiscordTezosBot {
         }
     }
 
+    /**
+     * Routes command, autocomplete and button interactions to their command modules
+     */
+    private async handleInteraction(interaction: Interaction): Promise<void> {
+        if (interaction.isAutocomplete()) {
+            const command = getCommand(interaction.commandName);
+
+            try {
+                if (command?.type === "slash") {
+                    await command.autocomplete?.(interaction, this.commandContext);
+                }
+            } catch (error) {
+                logger.error(`Error handling autocomplete for /${interaction.commandName}:`, error);
+            }
+            return;
+        }
+
+        if (interaction.isButton()) {
+            await this.handleButton(interaction);
+            return;
+        }
+
+        if (!interaction.isChatInputCommand() && !interaction.isMessageContextMenuCommand()) {
+            return;
+        }
+
+        const command = getCommand(interaction.commandName);
+        const label = interaction.isChatInputCommand() ? `/${interaction.commandName}` : `"${interaction.commandName}"`;
+
+        if (!command) {
+            logger.warn(`Received unknown command: ${label}`);
+            return;
+        }
+
+        try {
+            if (command.permissions && !interaction.memberPermissions?.has(command.permissions)) {
+                await this.replyWithError(
+                    interaction,
+                    this.embedService.createErrorEmbed(
+                        "Missing permissions",
+                        `You don't have permission to use ${label} here.`
+                    )
+                );
+                return;
+            }
+
+            if (command.cooldown) {
+                const remaining = this.cooldowns.consume(command.data.name, interaction.user.id, command.cooldown);
+
+                if (remaining > 0) {
+                    const availableAt = Math.ceil((Date.now() + remaining) / 1000);
+                    await this.replyWithError(
+                        interaction,
+                        this.embedService.createErrorEmbed(
+                            "Slow down!",
+                            `You can use ${label} again <t:${availableAt}:R>.`
+                        )
+                    );
+                    return;
+                }
+            }
+
+            if (command.type === "slash" && interaction.isChatInputCommand()) {
+                await command.execute(interaction, this.commandContext);
+            } else if (command.type === "message" && interaction.isMessageContextMenuCommand()) {
+                await command.execute(interaction, this.commandContext);
+            }
+        } catch (error) {
+            logger.error(`Error handling ${label} command:`, error);
+
+            try {
+                await this.replyWithError(
+                    interaction,
+                    this.embedService.createErrorEmbed(
+                        "An unexpected error occurred",
+                        "Please try again later or contact support."
+                    )
+                );
+            } catch (replyError) {
+                logger.error("Failed to send error message:", replyError);
+            }
+        }
+    }
+
+    /**
+     * Routes a button to the command named by its custom ID prefix ("<command name>:...")
+     */
+    private async handleButton(interaction: ButtonInteraction): Promise<void> {
+        const commandName = interaction.customId.split(":")[0] || "";
+        const command = getCommand(commandName);
+
+        if (command?.type !== "slash" || !command.handleButton) {
+            logger.debug(`No handler for button: ${interaction.customId}`);
+            return;
+        }
+
+        try {
+            await command.handleButton(interaction, this.commandContext);
+        } catch (error) {
+            logger.error(`Error handling button ${interaction.customId}:`, error);
+
+            try {
+                const errorEmbed = this.embedService.createErrorEmbed(
+                    "An unexpected error occurred",
+                    "Please try again later or contact support."
+                );
+
+                // Keep the original message intact and report the error privately
+                if (interaction.deferred || interaction.replied) {
+                    await interaction.followUp({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+                } else {
+                    await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+                }
+            } catch (replyError) {
+                logger.error("Failed to send error message:", replyError);
+            }
+        }
+    }
+
+    /**
+     * Sends an error embed as the interaction's reply, editing the deferred reply if there is one
+     */
+    private async replyWithError(interaction: RepliableInteraction, errorEmbed: EmbedBuilder): Promise<void> {
+        if (interaction.deferred || interaction.replied) {
+            await interaction.editReply({ embeds: [errorEmbed] });
+        } else {
+            await interaction.reply({ embeds: [errorEmbed], flags: MessageFlags.Ephemeral });
+        }
+    }
+
     /**
      * Starts the Discord bot
      */
@@ -195,6 +355,13 @@ export class DiscordTezosBot {
             validateConfig();
             logger.info("✅ Configuration validated");
 
+            // Register slash commands, the bot still runs auto-previews if this fails
+            try {
+                await deployCommands();
+            } catch (error) {
+                logger.error("Failed to register slash commands:", error);
+            }
+
             // Login to Discord
             await this.client.login(config.discord.token);
         } catch (error) {
@@ -210,6 +377,11 @@ export class DiscordTezosBot {
         logger.info("🛑 Shutting down Discord bot...");
 
         try {
+            this.salesFeedService.stop();
+            this.artistWatchService.stop();
+            this.floorAlertService.stop();
+            this.reminderService.stop();
+            this.watchlistService.stop();
             this.client.destroy();
             logger.info("✅ Bot shutdown complete");
         } catch (error) {
@@ -0,0 +1,159 @@
+import { MessageFlags, SlashCommandBuilder } from "discord.js";
+import { isKTAddress } from "../marketplaces";
+import { logger } from "../utils/logger";
+import { autocompleteCollections, respondWithChoices } from "./autocomplete";
+import type { SlashCommand } from "../types";
+
+export const alertCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("alert")
+        .setDescription("Get notified when a collection floor crosses a price")
+        .addSubcommand((subcommand) =>
+            subcommand
+                .setName("floor")
+                .setDescription("Alert when a collection floor drops below or rises above a price")
+                .addStringOption((option) =>
+                    option
+                        .setName("collection")
+                        .setDescription("Collection name or contract address")
+                        .setRequired(true)
+                        .setAutocomplete(true)
+                )
+                .addNumberOption((option) =>
+                    option.setName("below").setDescription("Alert when the floor drops below this (ꜩ)").setMinValue(0)
+                )
+                .addNumberOption((option) =>
+                    option.setName("above").setDescription("Alert when the floor rises above this (ꜩ)").setMinValue(0)
+                )
+                .addStringOption((option) =>
+                    option
+                        .setName("notify")
+                        .setDescription("Where to send the alert, defaults to a DM")
+                        .addChoices({ name: "DM", value: "dm" }, { name: "This channel", value: "channel" })
+                )
+        )
+        .addSubcommand((subcommand) => subcommand.setName("list").setDescription("List your floor alerts"))
+        .addSubcommand((subcommand) =>
+            subcommand
+                .setName("remove")
+                .setDescription("Remove a floor alert")
+                .addIntegerOption((option) =>
+                    option.setName("id").setDescription("Alert to remove").setRequired(true).setAutocomplete(true)
+                )
+        ),
+    cooldown: 5,
+    execute: async (interaction, { nftService, embedService, floorAlertService }) => {
+        const subcommand = interaction.options.getSubcommand();
+
+        logger.info(`/alert ${subcommand} from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        if (subcommand === "list") {
+            await interaction.editReply({
+                embeds: [embedService.createAlertsEmbed(floorAlertService.getAlerts(interaction.user.id))],
+            });
+            return;
+        }
+
+        if (subcommand === "remove") {
+            const id = interaction.options.getInteger("id", true);
+            const removed = await floorAlertService.removeAlert(interaction.user.id, id);
+            const message = removed
+                ? `Removed alert #${removed.id} for **${removed.collectionName}**.`
+                : `You have no alert #${id}.`;
+
+            await interaction.editReply({
+                embeds: [embedService.createAlertsEmbed(floorAlertService.getAlerts(interaction.user.id), message)],
+            });
+            return;
+        }
+
+        const below = interaction.options.getNumber("below");
+        const above = interaction.options.getNumber("above");
+        const notify = interaction.options.getString("notify") === "channel" ? "channel" : "dm";
+
+        if ((below === null) === (above === null)) {
+            const errorEmbed = embedService.createErrorEmbed(
+                "Set one threshold",
+                "Use either `below` or `above`, create a second alert for the other direction."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        if (notify === "channel" && !interaction.inGuild()) {
+            const errorEmbed = embedService.createErrorEmbed(
+                "Channel alerts only work in servers",
+                "Use a DM alert here, or create the alert in a server channel."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const query = interaction.options.getString("collection", true);
+        const collectionResult = await nftService.getCollection(query);
+
+        if (!collectionResult.success || !collectionResult.data || !isKTAddress(collectionResult.data.contract)) {
+            const errorEmbed = embedService.createErrorEmbed(
+                `No Tezos collection found for "${query}"`,
+                "Pick a collection from the suggestions or paste its KT1 contract address."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const collection = collectionResult.data;
+        const direction = below !== null ? "below" : "above";
+        const threshold = below ?? above ?? 0;
+
+        const result = await floorAlertService.createAlert({
+            userId: interaction.user.id,
+            contract: collection.contract,
+            collectionName: collection.name,
+            direction,
+            threshold,
+            notify,
+            guildId: interaction.guildId ?? undefined,
+            channelId: notify === "channel" ? interaction.channelId : undefined,
+        });
+
+        if (!result.success || !result.data) {
+            const errorEmbed = embedService.createErrorEmbed("Could not create the alert", result.error);
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const { alert, floor } = result.data;
+        const lines = [
+            `Alert #${alert.id}: you'll be notified when the **${collection.name}** floor goes ${direction} ${threshold} ꜩ.`,
+        ];
+        if (floor !== undefined) {
+            lines.push(`The floor is currently ${floor} ꜩ.`);
+        }
+        if (!alert.armed) {
+            lines.push(
+                `It's already ${direction} the threshold, the alert fires after it moves back and crosses again.`
+            );
+        }
+
+        await interaction.editReply({
+            embeds: [embedService.createAlertsEmbed(floorAlertService.getAlerts(interaction.user.id), lines.join(" "))],
+        });
+    },
+    autocomplete: async (interaction, { nftService, floorAlertService }) => {
+        if (interaction.options.getFocused(true).name === "id") {
+            await respondWithChoices(
+                interaction,
+                floorAlertService.getAlerts(interaction.user.id).map((alert) => ({
+                    name: `#${alert.id} ${alert.collectionName} ${alert.direction} ${alert.threshold} ꜩ`,
+                    value: alert.id,
+                }))
+            );
+            return;
+        }
+
+        await autocompleteCollections(interaction, nftService);
+    },
+};
@@ -0,0 +1,46 @@
+import { SlashCommandBuilder } from "discord.js";
+import { logger } from "../utils/logger";
+import type { SlashCommand } from "../types";
+
+export const artistCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("artist")
+        .setDescription("Show an artist's profile and latest mints")
+        .addStringOption((option) =>
+            option
+                .setName("address-or-alias")
+                .setDescription("tz address, OBJKT alias or .tez domain")
+                .setRequired(true)
+        )
+        .addIntegerOption((option) =>
+            option
+                .setName("mints")
+                .setDescription("Number of latest mints to show (default 5)")
+                .setMinValue(1)
+                .setMaxValue(9)
+                .setRequired(false)
+        ),
+    cooldown: 5,
+    execute: async (interaction, { nftService, embedService }) => {
+        const identifier = interaction.options.getString("address-or-alias", true);
+        const mints = interaction.options.getInteger("mints") ?? 5;
+
+        logger.info(`/artist "${identifier}" from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        await interaction.deferReply();
+
+        const result = await nftService.getArtist(identifier, mints);
+
+        if (!result.success || !result.data) {
+            const errorEmbed = embedService.createErrorEmbed(
+                `No artist found for "${identifier}"`,
+                "Use a tz address, an OBJKT alias or a .tez domain."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        await interaction.editReply({ embeds: embedService.createArtistEmbeds(result.data) });
+    },
+};
@@ -0,0 +1,39 @@
+import type { AutocompleteInteraction } from "discord.js";
+import type { NFTService } from "../services/nft.service";
+
+// Discord limits autocomplete choices to 25 entries of at most 100 characters
+const MAX_CHOICES = 25;
+const MAX_CHOICE_LENGTH = 100;
+
+/**
+ * Answers an autocomplete interaction with as many choices as Discord accepts, truncating long names
+ */
+export async function respondWithChoices(
+    interaction: AutocompleteInteraction,
+    choices: Array<{ name: string; value: string | number }>
+): Promise<void> {
+    await interaction.respond(
+        choices.slice(0, MAX_CHOICES).map(({ name, value }) => ({ name: name.substring(0, MAX_CHOICE_LENGTH), value }))
+    );
+}
+
+/**
+ * Suggests OBJKT collections whose name contains the focused option's text, answering with their contracts
+ */
+export async function autocompleteCollections(
+    interaction: AutocompleteInteraction,
+    nftService: NFTService
+): Promise<void> {
+    const query = interaction.options.getFocused().trim();
+
+    if (query.length < 2) {
+        await interaction.respond([]);
+        return;
+    }
+
+    const result = await nftService.searchCollections(query);
+    await respondWithChoices(
+        interaction,
+        (result.data || []).map((collection) => ({ name: collection.name, value: collection.contract }))
+    );
+}
@@ -0,0 +1,43 @@
+import { SlashCommandBuilder } from "discord.js";
+import { logger } from "../utils/logger";
+import { autocompleteCollections } from "./autocomplete";
+import type { SlashCommand } from "../types";
+
+export const collectionCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("collection")
+        .setDescription("Show live stats for an OBJKT collection")
+        .addStringOption((option) =>
+            option
+                .setName("name")
+                .setDescription("Collection name or contract address")
+                .setRequired(true)
+                .setAutocomplete(true)
+        ),
+    cooldown: 5,
+    execute: async (interaction, { nftService, embedService }) => {
+        // Autocomplete choices carry the contract address, free text is resolved by name
+        const query = interaction.options.getString("name", true);
+
+        logger.info(`/collection "${query}" from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        await interaction.deferReply();
+
+        const result = await nftService.getCollection(query);
+
+        if (!result.success || !result.data) {
+            const errorEmbed = embedService.createErrorEmbed(
+                `No collection found for "${query}"`,
+                "Pick a collection from the suggestions or paste its contract address."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        await interaction.editReply({ embeds: [embedService.createCollectionEmbed(result.data)] });
+    },
+    autocomplete: async (interaction, { nftService }) => {
+        await autocompleteCollections(interaction, nftService);
+    },
+};
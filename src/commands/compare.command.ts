@@ -0,0 +1,45 @@
+import { SlashCommandBuilder } from "discord.js";
+import { logger } from "../utils/logger";
+import type { SlashCommand } from "../types";
+
+export const compareCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("compare")
+        .setDescription("Compare two tokens side by side")
+        .addStringOption((option) => option.setName("a").setDescription("First token link").setRequired(true))
+        .addStringOption((option) => option.setName("b").setDescription("Second token link").setRequired(true)),
+    cooldown: 10,
+    execute: async (interaction, { nftService, embedService }) => {
+        const urlA = interaction.options.getString("a", true);
+        const urlB = interaction.options.getString("b", true);
+
+        logger.info(`/compare "${urlA}" "${urlB}" from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        await interaction.deferReply();
+
+        if (nftService.isSameToken(urlA, urlB)) {
+            const errorEmbed = embedService.createErrorEmbed(
+                "Could not compare these tokens",
+                "Both links point to the same token."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const [resultA, resultB] = await Promise.all([nftService.fetchToken(urlA), nftService.fetchToken(urlB)]);
+
+        const failed = [
+            ...(resultA.success && resultA.data ? [] : [`**a:** ${resultA.error || "Failed to fetch token"}`]),
+            ...(resultB.success && resultB.data ? [] : [`**b:** ${resultB.error || "Failed to fetch token"}`]),
+        ];
+
+        if (!resultA.data || !resultB.data) {
+            const errorEmbed = embedService.createErrorEmbed("Could not compare these tokens", failed.join("\n"));
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        await interaction.editReply({ embeds: embedService.createComparisonEmbeds(resultA.data, resultB.data) });
+    },
+};
@@ -0,0 +1,136 @@
+import {
+    ChannelType,
+    InteractionContextType,
+    MessageFlags,
+    PermissionFlagsBits,
+    SlashCommandBuilder,
+} from "discord.js";
+import { isKTAddress } from "../marketplaces";
+import { logger } from "../utils/logger";
+import { autocompleteCollections } from "./autocomplete";
+import type { SlashCommand } from "../types";
+
+export const feedCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("feed")
+        .setDescription("Post a collection's sales and listings to a channel")
+        .setContexts(InteractionContextType.Guild)
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+        .addSubcommand((subcommand) =>
+            subcommand
+                .setName("add")
+                .setDescription("Start a sales feed")
+                .addStringOption((option) =>
+                    option
+                        .setName("collection")
+                        .setDescription("Collection name or contract address")
+                        .setRequired(true)
+                        .setAutocomplete(true)
+                )
+                .addChannelOption((option) =>
+                    option
+                        .setName("channel")
+                        .setDescription("Channel to post in, defaults to this one")
+                        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+                        .setRequired(false)
+                )
+        )
+        .addSubcommand((subcommand) =>
+            subcommand
+                .setName("remove")
+                .setDescription("Stop a sales feed")
+                .addStringOption((option) =>
+                    option
+                        .setName("collection")
+                        .setDescription("Collection name or contract address")
+                        .setRequired(true)
+                        .setAutocomplete(true)
+                )
+                .addChannelOption((option) =>
+                    option
+                        .setName("channel")
+                        .setDescription("Only stop the feed in this channel")
+                        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+                        .setRequired(false)
+                )
+        )
+        .addSubcommand((subcommand) => subcommand.setName("list").setDescription("List this server's sales feeds")),
+    permissions: PermissionFlagsBits.ManageChannels,
+    cooldown: 5,
+    execute: async (interaction, { nftService, embedService, salesFeedService }) => {
+        const subcommand = interaction.options.getSubcommand();
+
+        logger.info(`/feed ${subcommand} from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        if (!interaction.guildId) {
+            return;
+        }
+
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        if (subcommand === "list") {
+            await interaction.editReply({
+                embeds: [embedService.createFeedsEmbed(salesFeedService.getSubscriptions(interaction.guildId))],
+            });
+            return;
+        }
+
+        const query = interaction.options.getString("collection", true);
+        const channel = interaction.options.getChannel("channel");
+        const collectionResult = await nftService.getCollection(query);
+
+        if (!collectionResult.success || !collectionResult.data || !isKTAddress(collectionResult.data.contract)) {
+            const errorEmbed = embedService.createErrorEmbed(
+                `No Tezos collection found for "${query}"`,
+                "Pick a collection from the suggestions or paste its KT1 contract address."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const collection = collectionResult.data;
+
+        if (subcommand === "remove") {
+            const removed = await salesFeedService.unsubscribe(interaction.guildId, collection.contract, channel?.id);
+            const message =
+                removed.length > 0
+                    ? `Stopped ${removed.length} feed(s) of **${collection.name}**.`
+                    : `There is no feed of **${collection.name}**${channel ? ` in <#${channel.id}>` : ""}.`;
+
+            await interaction.editReply({
+                embeds: [
+                    embedService.createFeedsEmbed(salesFeedService.getSubscriptions(interaction.guildId), message),
+                ],
+            });
+            return;
+        }
+
+        const channelId = channel?.id || interaction.channelId;
+        const result = await salesFeedService.subscribe({
+            guildId: interaction.guildId,
+            channelId,
+            contract: collection.contract,
+            collectionName: collection.name,
+            createdBy: interaction.user.id,
+        });
+
+        if (!result.success) {
+            const errorEmbed = embedService.createErrorEmbed("Could not add the feed", result.error);
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                embedService.createFeedsEmbed(
+                    salesFeedService.getSubscriptions(interaction.guildId),
+                    `New sales and listings of **${collection.name}** will be posted in <#${channelId}>.`
+                ),
+            ],
+        });
+    },
+    autocomplete: async (interaction, { nftService }) => {
+        await autocompleteCollections(interaction, nftService);
+    },
+};
@@ -0,0 +1,137 @@
+import {
+    ChannelType,
+    InteractionContextType,
+    MessageFlags,
+    PermissionFlagsBits,
+    SlashCommandBuilder,
+} from "discord.js";
+import { logger } from "../utils/logger";
+import type { SlashCommand } from "../types";
+
+export const followCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("follow")
+        .setDescription("Post an artist's new mints to a channel")
+        .setContexts(InteractionContextType.Guild)
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+        .addSubcommand((subcommand) =>
+            subcommand
+                .setName("add")
+                .setDescription("Follow an artist's new mints")
+                .addStringOption((option) =>
+                    option
+                        .setName("artist")
+                        .setDescription("Tezos address, OBJKT alias or .tez domain")
+                        .setRequired(true)
+                )
+                .addChannelOption((option) =>
+                    option
+                        .setName("channel")
+                        .setDescription("Channel to post in, defaults to this one")
+                        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+                        .setRequired(false)
+                )
+                .addRoleOption((option) =>
+                    option.setName("role").setDescription("Role to ping with each new mint").setRequired(false)
+                )
+        )
+        .addSubcommand((subcommand) =>
+            subcommand
+                .setName("remove")
+                .setDescription("Stop following an artist")
+                .addStringOption((option) =>
+                    option
+                        .setName("artist")
+                        .setDescription("Tezos address, OBJKT alias or .tez domain")
+                        .setRequired(true)
+                )
+                .addChannelOption((option) =>
+                    option
+                        .setName("channel")
+                        .setDescription("Only stop following in this channel")
+                        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+                        .setRequired(false)
+                )
+        )
+        .addSubcommand((subcommand) =>
+            subcommand.setName("list").setDescription("List the artists this server follows")
+        ),
+    permissions: PermissionFlagsBits.ManageChannels,
+    cooldown: 5,
+    execute: async (interaction, { nftService, embedService, artistWatchService }) => {
+        const subcommand = interaction.options.getSubcommand();
+
+        logger.info(`/follow ${subcommand} from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        if (!interaction.guildId) {
+            return;
+        }
+
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        if (subcommand === "list") {
+            await interaction.editReply({
+                embeds: [embedService.createFollowsEmbed(artistWatchService.getFollows(interaction.guildId))],
+            });
+            return;
+        }
+
+        const identifier = interaction.options.getString("artist", true);
+        const channel = interaction.options.getChannel("channel");
+        const artistResult = await nftService.getArtist(identifier, 1);
+
+        if (!artistResult.success || !artistResult.data) {
+            const errorEmbed = embedService.createErrorEmbed(
+                `No artist found for "${identifier}"`,
+                "Use a tz address, an OBJKT alias or a .tez domain."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const artist = artistResult.data;
+        const name = artist.alias || artist.domain || artist.address;
+
+        if (subcommand === "remove") {
+            const removed = await artistWatchService.unfollow(interaction.guildId, artist.address, channel?.id);
+            const message =
+                removed.length > 0
+                    ? `Stopped following **${name}** in ${removed.length} channel(s).`
+                    : `**${name}** isn't followed${channel ? ` in <#${channel.id}>` : ""}.`;
+
+            await interaction.editReply({
+                embeds: [embedService.createFollowsEmbed(artistWatchService.getFollows(interaction.guildId), message)],
+            });
+            return;
+        }
+
+        const channelId = channel?.id || interaction.channelId;
+        const role = interaction.options.getRole("role");
+        const result = await artistWatchService.follow({
+            guildId: interaction.guildId,
+            channelId,
+            address: artist.address,
+            name,
+            roleId: role?.id,
+            createdBy: interaction.user.id,
+        });
+
+        if (!result.success) {
+            const errorEmbed = embedService.createErrorEmbed("Could not follow the artist", result.error);
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                embedService.createFollowsEmbed(
+                    artistWatchService.getFollows(interaction.guildId),
+                    `New mints by **${name}** will be posted in <#${channelId}>${
+                        role ? `, pinging <@&${role.id}>` : ""
+                    }.`
+                ),
+            ],
+        });
+    },
+};
@@ -0,0 +1,64 @@
+import { MessageFlags, SlashCommandBuilder } from "discord.js";
+import { logger } from "../utils/logger";
+import type { SlashCommand } from "../types";
+
+export const historyCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("history")
+        .setDescription("Show the mint, transfers and sales of a token")
+        .addStringOption((option) =>
+            option.setName("url").setDescription("Token link, or a KT1 contract address").setRequired(true)
+        )
+        .addStringOption((option) =>
+            option.setName("token-id").setDescription("Token ID, when url is a contract").setRequired(false)
+        ),
+    cooldown: 5,
+    execute: async (interaction, { nftService, embedService }) => {
+        const input = interaction.options.getString("url", true);
+        const tokenIdOption = interaction.options.getString("token-id");
+
+        logger.info(`/history "${input}" from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        await interaction.deferReply();
+
+        const targetResult = await nftService.resolveTokenTarget(input);
+        const tokenId = tokenIdOption?.trim() || targetResult.data?.tokenId;
+
+        if (!targetResult.success || !targetResult.data || !tokenId) {
+            const errorEmbed = embedService.createErrorEmbed(
+                `Could not find a Tezos token for "${input}"`,
+                "Use a token link, or a KT1 contract address with a token ID."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const result = await nftService.getProvenance(targetResult.data.contractAddress, tokenId);
+
+        if (!result.success || !result.data) {
+            throw new Error(result.error || "Failed to fetch token history");
+        }
+
+        await interaction.editReply({ embeds: [embedService.createProvenanceEmbed(result.data)] });
+    },
+    handleButton: async (interaction, { nftService, embedService }) => {
+        // Custom ID format: history:<contract>:<token id>, from the History button under previews
+        const [, contractAddress, tokenId] = interaction.customId.split(":");
+
+        if (!contractAddress || !tokenId) {
+            return;
+        }
+
+        // Only the member who asked sees the history, the preview stays as is
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        const result = await nftService.getProvenance(contractAddress, tokenId);
+
+        if (!result.success || !result.data) {
+            throw new Error(result.error || "Failed to fetch token history");
+        }
+
+        await interaction.editReply({ embeds: [embedService.createProvenanceEmbed(result.data)] });
+    },
+};
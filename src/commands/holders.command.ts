@@ -0,0 +1,112 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, SlashCommandBuilder } from "discord.js";
+import { logger } from "../utils/logger";
+import type { HolderList, SlashCommand } from "../types";
+
+const PAGE_SIZE = 15;
+
+/**
+ * Builds the previous/next buttons, encoding the target and page in the custom IDs
+ */
+function createPageButtons(list: HolderList, page: number): ActionRowBuilder<ButtonBuilder>[] {
+    const pageCount = Math.ceil(list.holders.length / PAGE_SIZE);
+    if (pageCount <= 1) {
+        return [];
+    }
+
+    const target = `${list.contract}:${list.tokenId ?? ""}`;
+
+    return [
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`holders:${target}:${page - 1}`)
+                .setLabel("◀ Previous")
+                .setStyle(ButtonStyle.Secondary)
+                .setDisabled(page <= 0),
+            new ButtonBuilder()
+                .setCustomId(`holders:${target}:${page + 1}`)
+                .setLabel("Next ▶")
+                .setStyle(ButtonStyle.Secondary)
+                .setDisabled(page >= pageCount - 1)
+        ),
+    ];
+}
+
+export const holdersCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("holders")
+        .setDescription("List the top holders of a token or collection")
+        .addStringOption((option) =>
+            option
+                .setName("target")
+                .setDescription("KT1 contract address, or a token or collection link")
+                .setRequired(true)
+        )
+        .addStringOption((option) =>
+            option.setName("token-id").setDescription("Token ID, when target is a contract").setRequired(false)
+        ),
+    cooldown: 10,
+    execute: async (interaction, { nftService, embedService }) => {
+        const input = interaction.options.getString("target", true);
+        const tokenIdOption = interaction.options.getString("token-id");
+
+        logger.info(`/holders "${input}" from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        await interaction.deferReply();
+
+        const targetResult = await nftService.resolveTokenTarget(input);
+
+        if (!targetResult.success || !targetResult.data) {
+            const errorEmbed = embedService.createErrorEmbed(
+                `Could not find a Tezos contract for "${input}"`,
+                "Use a KT1 contract address, or an objkt, Teia or Versum token or collection link."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const tokenId = tokenIdOption?.trim() || targetResult.data.tokenId;
+
+        // The token ID ends up in the page button custom IDs, so it has to be a plain number
+        if (tokenId !== undefined && !/^\d{1,40}$/.test(tokenId)) {
+            const errorEmbed = embedService.createErrorEmbed("Invalid token ID", "Token IDs are numbers, e.g. 42.");
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const result = await nftService.getHolders(targetResult.data.contractAddress, tokenId);
+
+        if (!result.success || !result.data) {
+            throw new Error(result.error || "Failed to fetch holders");
+        }
+
+        await interaction.editReply({
+            embeds: [embedService.createHoldersEmbed(result.data, 0, PAGE_SIZE)],
+            components: createPageButtons(result.data, 0),
+        });
+    },
+    handleButton: async (interaction, { nftService, embedService }) => {
+        // Custom ID format: holders:<contract>:<token id or empty>:<page>
+        const [, contractAddress, tokenId, pageValue] = interaction.customId.split(":");
+
+        if (!contractAddress) {
+            return;
+        }
+
+        await interaction.deferUpdate();
+
+        const result = await nftService.getHolders(contractAddress, tokenId || undefined);
+
+        if (!result.success || !result.data) {
+            throw new Error(result.error || "Failed to fetch holders");
+        }
+
+        const pageCount = Math.max(1, Math.ceil(result.data.holders.length / PAGE_SIZE));
+        const page = Math.min(Math.max(Number(pageValue) || 0, 0), pageCount - 1);
+
+        await interaction.editReply({
+            embeds: [embedService.createHoldersEmbed(result.data, page, PAGE_SIZE)],
+            components: createPageButtons(result.data, page),
+        });
+    },
+};
@@ -0,0 +1,78 @@
+import { REST, Routes } from "discord.js";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { previewCommand } from "./preview.command";
+import { previewLinksCommand } from "./preview-links.command";
+import { collectionCommand } from "./collection.command";
+import { artistCommand } from "./artist.command";
+import { walletCommand } from "./wallet.command";
+import { holdersCommand } from "./holders.command";
+import { historyCommand } from "./history.command";
+import { rarityCommand } from "./rarity.command";
+import { compareCommand } from "./compare.command";
+import { feedCommand } from "./feed.command";
+import { followCommand } from "./follow.command";
+import { alertCommand } from "./alert.command";
+import { remindersCommand } from "./reminders.command";
+import { watchlistCommand } from "./watchlist.command";
+import type { BotCommand } from "../types";
+
+// Commands are registered with Discord and dispatched by name
+const commands = new Map<string, BotCommand>();
+
+/**
+ * Registers a command module, replacing any command with the same name
+ */
+export function registerCommand(command: BotCommand): void {
+    commands.set(command.data.name, command);
+}
+
+/**
+ * Returns all registered command modules
+ */
+export function getCommands(): BotCommand[] {
+    return Array.from(commands.values());
+}
+
+/**
+ * Looks up a command module by name
+ */
+export function getCommand(name: string): BotCommand | undefined {
+    return commands.get(name);
+}
+
+/**
+ * Publishes the registered commands to Discord, per guild when DISCORD_COMMAND_GUILD_IDS is set, globally otherwise
+ */
+export async function deployCommands(): Promise<void> {
+    const body = getCommands().map((command) => command.data.toJSON());
+    const rest = new REST().setToken(config.discord.token);
+
+    if (config.discord.commandGuildIds.length === 0) {
+        await rest.put(Routes.applicationCommands(config.discord.clientId), { body });
+        logger.info(`✅ Registered ${body.length} global command(s)`);
+        return;
+    }
+
+    for (const guildId of config.discord.commandGuildIds) {
+        await rest.put(Routes.applicationGuildCommands(config.discord.clientId, guildId), { body });
+        logger.info(`✅ Registered ${body.length} command(s) in guild ${guildId}`);
+    }
+}
+
+[
+    previewCommand,
+    previewLinksCommand,
+    collectionCommand,
+    artistCommand,
+    walletCommand,
+    holdersCommand,
+    historyCommand,
+    rarityCommand,
+    compareCommand,
+    feedCommand,
+    followCommand,
+    alertCommand,
+    remindersCommand,
+    watchlistCommand,
+].forEach(registerCommand);
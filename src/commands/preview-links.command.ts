@@ -0,0 +1,43 @@
+import { ApplicationCommandType, ContextMenuCommandBuilder, MessageFlags } from "discord.js";
+import { getIgnoredContexts } from "../config";
+import { logger } from "../utils/logger";
+import type { MessageContextMenuCommand } from "../types";
+
+export const previewLinksCommand: MessageContextMenuCommand = {
+    type: "message",
+    data: new ContextMenuCommandBuilder().setName("Preview Tezos links").setType(ApplicationCommandType.Message),
+    cooldown: 5,
+    execute: async (interaction, { previewService, embedService }) => {
+        const message = interaction.targetMessage;
+
+        logger.info(
+            `"Preview Tezos links" on message ${message.id} from ${interaction.user.tag} in ${
+                interaction.guild?.name || "DM"
+            }`
+        );
+
+        // Replies are only visible to the invoking user so old threads aren't bumped with previews
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        // Same pipeline and ignored markdown regions as automatic previews
+        const results = await previewService.fetchPreviews(message.content, getIgnoredContexts(interaction.guildId));
+
+        if (previewService.countPreviews(results) === 0) {
+            const errorEmbed = embedService.createErrorEmbed(
+                "No supported Tezos links found in this message",
+                "Links inside code blocks, spoilers, quotes or <suppressed> URLs may be ignored in this server."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const embeds = previewService.createPreviewEmbeds(results);
+
+        if (embeds.length === 0) {
+            throw new Error("No valid embeds could be generated");
+        }
+
+        await interaction.editReply({ embeds, components: previewService.createPreviewComponents(results) });
+        logger.info(`Successfully sent ${embeds.length} preview(s) for message ${message.id}`);
+    },
+};
@@ -0,0 +1,46 @@
+import { MessageFlags, SlashCommandBuilder } from "discord.js";
+import { logger } from "../utils/logger";
+import type { SlashCommand } from "../types";
+
+export const previewCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("preview")
+        .setDescription("Preview a Tezos NFT, collection, profile or operation link")
+        .addStringOption((option) =>
+            option.setName("url").setDescription("Marketplace link, wallet address or operation hash").setRequired(true)
+        )
+        .addBooleanOption((option) =>
+            option.setName("ephemeral").setDescription("Only show the preview to you").setRequired(false)
+        ),
+    cooldown: 5,
+    execute: async (interaction, { previewService, embedService }) => {
+        const url = interaction.options.getString("url", true);
+        const ephemeral = interaction.options.getBoolean("ephemeral") ?? false;
+
+        logger.info(`/preview "${url}" from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        await interaction.deferReply({ flags: ephemeral ? MessageFlags.Ephemeral : undefined });
+
+        // The link is given explicitly, so no markdown region is ignored
+        const results = await previewService.fetchPreviews(url, []);
+
+        if (previewService.countPreviews(results) === 0) {
+            const errorEmbed = embedService.createErrorEmbed(
+                "No supported Tezos link found",
+                "Try an objkt, fx(hash), Teia or Versum token link, a collection link, a wallet address or an operation hash."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const embeds = previewService.createPreviewEmbeds(results);
+
+        if (embeds.length === 0) {
+            throw new Error("No valid embeds could be generated");
+        }
+
+        await interaction.editReply({ embeds, components: previewService.createPreviewComponents(results) });
+        logger.info(`Successfully sent ${embeds.length} preview(s) for /preview`);
+    },
+};
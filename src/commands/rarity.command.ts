@@ -0,0 +1,35 @@
+import { SlashCommandBuilder } from "discord.js";
+import { logger } from "../utils/logger";
+import type { SlashCommand } from "../types";
+
+export const rarityCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("rarity")
+        .setDescription("Show a token's rarity rank and trait frequencies within its collection")
+        .addStringOption((option) =>
+            option.setName("url").setDescription("Token link (objkt, fx(hash), ...)").setRequired(true)
+        ),
+    cooldown: 5,
+    execute: async (interaction, { nftService, embedService }) => {
+        const url = interaction.options.getString("url", true);
+
+        logger.info(`/rarity "${url}" from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        await interaction.deferReply();
+
+        const result = await nftService.processMessage(url, []);
+        const nft = result.data?.[0];
+
+        if (!nft) {
+            const errorEmbed = embedService.createErrorEmbed(
+                "No supported token link found",
+                "Paste an objkt, fx(hash), Teia or Versum token link."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        await interaction.editReply({ embeds: [embedService.createRarityEmbed(nft)] });
+    },
+};
@@ -0,0 +1,76 @@
+import { MessageFlags, SlashCommandBuilder } from "discord.js";
+import { logger } from "../utils/logger";
+import { respondWithChoices } from "./autocomplete";
+import type { SlashCommand } from "../types";
+
+export const remindersCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("reminders")
+        .setDescription("Manage your auction ending reminders")
+        .addSubcommand((subcommand) => subcommand.setName("list").setDescription("List your auction reminders"))
+        .addSubcommand((subcommand) =>
+            subcommand
+                .setName("cancel")
+                .setDescription("Cancel an auction reminder")
+                .addIntegerOption((option) =>
+                    option.setName("id").setDescription("Reminder to cancel").setRequired(true).setAutocomplete(true)
+                )
+        ),
+    execute: async (interaction, { embedService, reminderService }) => {
+        const subcommand = interaction.options.getSubcommand();
+
+        logger.info(`/reminders ${subcommand} from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        let message: string | undefined;
+
+        if (subcommand === "cancel") {
+            const id = interaction.options.getInteger("id", true);
+            const cancelled = await reminderService.cancelReminder(interaction.user.id, id);
+            message = cancelled
+                ? `Cancelled reminder #${cancelled.id} for **${cancelled.tokenName}**.`
+                : `You have no reminder #${id}.`;
+        }
+
+        await interaction.reply({
+            embeds: [embedService.createRemindersEmbed(reminderService.getReminders(interaction.user.id), message)],
+            flags: MessageFlags.Ephemeral,
+        });
+    },
+    autocomplete: async (interaction, { reminderService }) => {
+        await respondWithChoices(
+            interaction,
+            reminderService
+                .getReminders(interaction.user.id)
+                .map((reminder) => ({ name: `#${reminder.id} ${reminder.tokenName}`, value: reminder.id }))
+        );
+    },
+    handleButton: async (interaction, { embedService, reminderService }) => {
+        // Custom ID format: reminders:<contract>:<token id>, from the Remind me button under auction previews
+        const [, contractAddress, tokenId] = interaction.customId.split(":");
+
+        if (!contractAddress || !tokenId) {
+            return;
+        }
+
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        const result = await reminderService.createReminder(interaction.user.id, contractAddress, tokenId);
+
+        if (!result.success || !result.data) {
+            const errorEmbed = embedService.createErrorEmbed("Could not set a reminder", result.error);
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const remindAt = Math.floor(new Date(result.data.remindAt).getTime() / 1000);
+        await interaction.editReply({
+            embeds: [
+                embedService.createRemindersEmbed(
+                    reminderService.getReminders(interaction.user.id),
+                    `I'll DM you about **${result.data.tokenName}** <t:${remindAt}:R>. Make sure DMs from server members are allowed.`
+                ),
+            ],
+        });
+    },
+};
@@ -0,0 +1,34 @@
+import { SlashCommandBuilder } from "discord.js";
+import { logger } from "../utils/logger";
+import type { SlashCommand } from "../types";
+
+export const walletCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("wallet")
+        .setDescription("Summarize the NFTs held by a Tezos wallet")
+        .addStringOption((option) =>
+            option.setName("address").setDescription("tz address or .tez domain").setRequired(true)
+        ),
+    cooldown: 10,
+    execute: async (interaction, { nftService, embedService }) => {
+        const address = interaction.options.getString("address", true);
+
+        logger.info(`/wallet "${address}" from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        await interaction.deferReply();
+
+        const result = await nftService.getWalletSummary(address);
+
+        if (!result.success || !result.data) {
+            const errorEmbed = embedService.createErrorEmbed(
+                `Could not summarize wallet "${address}"`,
+                result.error || "Use a tz address or a .tez domain."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        await interaction.editReply({ embeds: [embedService.createWalletEmbed(result.data)] });
+    },
+};
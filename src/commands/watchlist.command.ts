@@ -0,0 +1,97 @@
+import { MessageFlags, SlashCommandBuilder } from "discord.js";
+import { logger } from "../utils/logger";
+import { respondWithChoices } from "./autocomplete";
+import type { SlashCommand } from "../types";
+
+export const watchlistCommand: SlashCommand = {
+    type: "slash",
+    data: new SlashCommandBuilder()
+        .setName("watchlist")
+        .setDescription("Get a DM when the price or sale of a token changes")
+        .addSubcommand((subcommand) =>
+            subcommand
+                .setName("add")
+                .setDescription("Watch a token")
+                .addStringOption((option) =>
+                    option.setName("url").setDescription("Token link, e.g. an objkt or Teia link").setRequired(true)
+                )
+        )
+        .addSubcommand((subcommand) => subcommand.setName("list").setDescription("List your watched tokens"))
+        .addSubcommand((subcommand) =>
+            subcommand
+                .setName("remove")
+                .setDescription("Stop watching a token")
+                .addIntegerOption((option) =>
+                    option.setName("id").setDescription("Token to remove").setRequired(true).setAutocomplete(true)
+                )
+        ),
+    cooldown: 5,
+    execute: async (interaction, { nftService, embedService, watchlistService }) => {
+        const subcommand = interaction.options.getSubcommand();
+
+        logger.info(`/watchlist ${subcommand} from ${interaction.user.tag} in ${interaction.guild?.name || "DM"}`);
+
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        if (subcommand === "list") {
+            await interaction.editReply({
+                embeds: [embedService.createWatchlistEmbed(watchlistService.getWatchlist(interaction.user.id))],
+            });
+            return;
+        }
+
+        if (subcommand === "remove") {
+            const id = interaction.options.getInteger("id", true);
+            const removed = await watchlistService.removeToken(interaction.user.id, id);
+            const message = removed ? `Stopped watching **${removed.name}**.` : `You have no watched token #${id}.`;
+
+            await interaction.editReply({
+                embeds: [
+                    embedService.createWatchlistEmbed(watchlistService.getWatchlist(interaction.user.id), message),
+                ],
+            });
+            return;
+        }
+
+        const input = interaction.options.getString("url", true);
+        const targetResult = await nftService.resolveTokenTarget(input);
+
+        if (!targetResult.success || !targetResult.data?.tokenId) {
+            const errorEmbed = embedService.createErrorEmbed(
+                `Could not find a Tezos token for "${input}"`,
+                "Use a token link, e.g. from objkt, Teia or Versum."
+            );
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        const result = await watchlistService.addToken(
+            interaction.user.id,
+            targetResult.data.contractAddress,
+            targetResult.data.tokenId
+        );
+
+        if (!result.success || !result.data) {
+            const errorEmbed = embedService.createErrorEmbed("Could not watch the token", result.error);
+            await interaction.editReply({ embeds: [errorEmbed] });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                embedService.createWatchlistEmbed(
+                    watchlistService.getWatchlist(interaction.user.id),
+                    `Watching **${result.data.name}**. I'll DM you when its lowest ask, auction bid or open edition changes, so make sure DMs from server members are allowed.`
+                ),
+            ],
+        });
+    },
+    autocomplete: async (interaction, { watchlistService }) => {
+        await respondWithChoices(
+            interaction,
+            watchlistService
+                .getWatchlist(interaction.user.id)
+                .map((token) => ({ name: `#${token.id} ${token.name}`, value: token.id }))
+        );
+    },
+};
@@ -1,17 +1,100 @@
 import dotenv from "dotenv";
+import { ALL_IGNORED_CONTEXTS, isIgnoredContext } from "./utils/discord-markdown";
+import type { IgnoredContext } from "./types";
 
 dotenv.config();
 
+/**
+ * Parses a comma separated list of markdown contexts ("none" disables all of them)
+ */
+const parseIgnoredContexts = (value: string | undefined): IgnoredContext[] => {
+    if (value === undefined) {
+        return [...ALL_IGNORED_CONTEXTS];
+    }
+
+    return value
+        .split(",")
+        .map((context) => context.trim().toLowerCase())
+        .filter(isIgnoredContext);
+};
+
+// Why GUILD_IGNORED_CONTEXTS couldn't be parsed, reported by validateConfig
+let guildIgnoredContextsError: string | undefined;
+
+/**
+ * Parses per-guild overrides, e.g. {"123456789": "code,suppressed"}
+ */
+const parseGuildIgnoredContexts = (value: string | undefined): Record<string, IgnoredContext[]> => {
+    if (!value) {
+        return {};
+    }
+
+    try {
+        const overrides = JSON.parse(value) as Record<string, string | string[]>;
+
+        return Object.fromEntries(
+            Object.entries(overrides).map(([guildId, contexts]) => [
+                guildId,
+                parseIgnoredContexts(Array.isArray(contexts) ? contexts.join(",") : contexts),
+            ])
+        );
+    } catch (error) {
+        guildIgnoredContextsError = String(error);
+        return {};
+    }
+};
+
+/**
+ * Parses a comma separated list of IDs
+ */
+const parseIdList = (value: string | undefined): string[] => {
+    return (value || "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean);
+};
+
 export const config = {
     discord: {
         token: process.env["DISCORD_BOT_TOKEN"] || "",
         clientId: process.env["DISCORD_CLIENT_ID"] || "",
+        // Guilds to register commands in directly (instant updates); commands are registered globally when empty
+        commandGuildIds: parseIdList(process.env["DISCORD_COMMAND_GUILD_IDS"]),
     },
     api: {
         tzktBaseUrl: process.env["TZKT_API_BASE_URL"] || "https://api.tzkt.io",
         objktBaseUrl: process.env["OBJKT_API_BASE_URL"] || "https://data.objkt.com",
+        fxhashApiUrl: process.env["FXHASH_API_URL"] || "https://api.fxhash.xyz/graphql",
         rateLimit: parseInt(process.env["API_RATE_LIMIT"] || "60", 10),
     },
+    detection: {
+        ignoredContexts: parseIgnoredContexts(process.env["IGNORED_CONTEXTS"]),
+        guildIgnoredContexts: parseGuildIgnoredContexts(process.env["GUILD_IGNORED_CONTEXTS"]),
+    },
+    feeds: {
+        // Seconds between checks for new collection sales and listings
+        pollInterval: parseInt(process.env["FEED_POLL_INTERVAL"] || "60", 10),
+    },
+    artistWatch: {
+        // Seconds between checks for new mints by followed artists
+        pollInterval: parseInt(process.env["ARTIST_WATCH_POLL_INTERVAL"] || "120", 10),
+    },
+    floorAlerts: {
+        // Seconds between floor price checks
+        pollInterval: parseInt(process.env["FLOOR_ALERT_POLL_INTERVAL"] || "300", 10),
+    },
+    reminders: {
+        // Minutes before an auction ends that "Remind me" DMs are sent
+        leadMinutes: parseInt(process.env["REMINDER_LEAD_MINUTES"] || "15", 10),
+    },
+    watchlist: {
+        // Seconds between market checks of watched tokens
+        pollInterval: parseInt(process.env["WATCHLIST_POLL_INTERVAL"] || "300", 10),
+    },
+    storage: {
+        // Bot state (feeds, follows, alerts, reminders and watchlists) is kept as JSON files here
+        dataDir: process.env["DATA_DIR"] || "data",
+    },
     referral: {
         address: process.env["REFERRAL_ADDRESS"] || "",
     },
@@ -29,4 +112,17 @@ export const validateConfig = (): void => {
     if (!config.discord.clientId) {
         throw new Error("DISCORD_CLIENT_ID is required");
     }
+
+    if (guildIgnoredContextsError) {
+        throw new Error(
+            `GUILD_IGNORED_CONTEXTS must be a JSON object of guild IDs to contexts: ${guildIgnoredContextsError}`
+        );
+    }
+};
+
+/**
+ * Returns the markdown contexts whose links are ignored for a guild
+ */
+export const getIgnoredContexts = (guildId?: string | null): IgnoredContext[] => {
+    return (guildId && config.detection.guildIgnoredContexts[guildId]) || config.detection.ignoredContexts;
 };
@@ -0,0 +1,29 @@
+import type { CollectionIdentity, MarketplaceAdapter, TokenIdentity } from "../types";
+
+/**
+ * Runs an adapter's token patterns over a URL the way link detection does, first matching pattern wins
+ */
+export function matchToken(adapter: MarketplaceAdapter, url: string): TokenIdentity | undefined {
+    for (const pattern of adapter.tokenPatterns) {
+        const match = url.match(pattern);
+        if (match) {
+            return adapter.toTokenIdentity(match);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Runs an adapter's collection patterns over a URL the way link detection does, first matching pattern wins
+ */
+export function matchCollection(adapter: MarketplaceAdapter, url: string): CollectionIdentity | undefined {
+    for (const pattern of adapter.collectionPatterns || []) {
+        const match = url.match(pattern);
+        if (match) {
+            return adapter.toCollectionIdentity?.(match);
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,16 @@
+import { describe, expect, test } from "bun:test";
+import { bootloaderAdapter } from "./bootloader.adapter";
+import { matchCollection, matchToken } from "./adapter-test-helpers";
+
+describe("bootloaderAdapter", () => {
+    test("matches token and generator URLs", () => {
+        expect(matchToken(bootloaderAdapter, "https://bootloader.art/token/123")).toEqual({ tokenId: "123" });
+        expect(matchCollection(bootloaderAdapter, "https://bootloader.art/generator/45")).toEqual({ projectId: "45" });
+    });
+
+    test("does not match other pages or other sites", () => {
+        expect(matchToken(bootloaderAdapter, "https://bootloader.art/generator/45")).toBeUndefined();
+        expect(matchToken(bootloaderAdapter, "https://bootloader.art/token/abc")).toBeUndefined();
+        expect(matchCollection(bootloaderAdapter, "https://bootloader.art/token/123")).toBeUndefined();
+    });
+});
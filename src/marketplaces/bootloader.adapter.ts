@@ -0,0 +1,16 @@
+import type { MarketplaceAdapter } from "../types";
+
+export const bootloaderAdapter: MarketplaceAdapter = {
+    key: "bootloader",
+    name: "Bootloader",
+    icon: "https://bootloader.art/favicon.ico",
+    tokenPatterns: [/(?:https?:\/\/)?(?:www\.)?bootloader\.art\/token\/(\d+)(?:\?[^\s]*)?/i],
+    collectionPatterns: [
+        /(?:https?:\/\/)?(?:www\.)?bootloader\.art\/generator\/(\d+)(?:\?[^\s]*)?/i, // bootloader.art/generator/id
+    ],
+    toTokenIdentity: (match) => (match[1] ? { tokenId: match[1] } : undefined),
+    toCollectionIdentity: (match) => ({ projectId: match[1] }), // Bootloader generator URLs have project ID
+    // Bootloader tokens are indexed in OBJKT, use bootloader as path to resolve the contract
+    fetchStrategy: { source: "objkt", contractAddress: "bootloader" },
+    referralParam: "ref",
+};
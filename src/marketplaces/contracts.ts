@@ -0,0 +1,50 @@
+// Known contract mappings for marketplaces that don't include contract in URL
+export const MARKETPLACE_CONTRACTS = {
+    hicetnunc: "KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton", // HicEtNunc 2.0 / Teia
+    kalamint: "KT1EpGgjQs73QfFJs9z7m1Mxm5MTnpC2tqse", // Kalamint
+} as const;
+
+// 8bidou token contracts by canvas size (the size segment of 8bidou listing URLs)
+export const EIGHTBIDOU_CONTRACTS: Record<string, string> = {
+    "8x8": "KT1MxDwChiDwd6WBVs24g1NjERUoK622ZEFp",
+    "24x24": "KT1TR1ErEQPTdtaJ7hbvKTJSa1tsGnHGZTpf",
+};
+
+// fx(hash) gentk contracts by gentk version (the FX<version>- prefix of gentk ids)
+export const FXHASH_GENTK_CONTRACTS: Record<string, string> = {
+    "0": "KT1KEa8z6vWXDJrVqtMrAeDVzsvxat3kHaCE", // gentk v0, FX0- ids (fx(hash) 1.0)
+    "1": "KT1U6EHmNxJTkvaWJ4ThczG4FSDaHC21ssvi", // gentk v1, FX1- ids
+    "2": "KT1EfsNuqwLAWDd3o4pvfUx1CAh5GMdTrRvr", // gentk v2, FX2- ids (params)
+};
+
+// Marketplace trading contracts, used to recognize purchases in operations
+export const MARKETPLACE_TRADING_CONTRACTS: Record<string, string> = {
+    KT1FvqJwEDWb1Gwc55Jd1jjTHRVWbYKUUpyq: "OBJKT", // objkt marketplace v1
+    KT1WvzYHCNBvDSdwafTHv7nJ1dWmZ8GCYuuC: "OBJKT", // objkt marketplace v2
+    KT1HbQepzV1nVGg8QVznG7z4RcHseD5kwqBn: "hic et nunc", // HEN marketplace v2
+    KT1PHubm9HtyQEJ4BBpMTVomq6mhbfNZ9z5w: "Teia",
+};
+
+// Entrypoints that complete a purchase on a marketplace contract
+export const PURCHASE_ENTRYPOINTS = ["fulfill_ask", "collect"] as const;
+
+/**
+ * Checks if a string is a valid Tezos KT contract address
+ */
+export function isKTAddress(address: string): boolean {
+    return /^KT1[1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
+}
+
+/**
+ * Checks if a string is a valid Tezos implicit account (wallet) address
+ */
+export function isTzAddress(address: string): boolean {
+    return /^tz[1-3][1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
+}
+
+/**
+ * Checks if a string is an EVM (e.g. Etherlink) contract address
+ */
+export function isEVMAddress(address: string): boolean {
+    return /^0x[0-9a-fA-F]{40}$/.test(address);
+}
@@ -0,0 +1,22 @@
+import { describe, expect, test } from "bun:test";
+import { editartAdapter } from "./editart.adapter";
+import { matchCollection, matchToken } from "./adapter-test-helpers";
+
+const CONTRACT = "KT1D3vAxKPHyLKyN1WrXXkEKgJAAy8XW3aQY";
+
+describe("editartAdapter", () => {
+    test("matches token-detail and series URLs", () => {
+        expect(matchToken(editartAdapter, `https://www.editart.xyz/token-detail/${CONTRACT}/7`)).toEqual({
+            contractAddress: CONTRACT,
+            tokenId: "7",
+        });
+        expect(matchCollection(editartAdapter, `https://editart.xyz/series/${CONTRACT}/details`)).toEqual({
+            contractAddress: CONTRACT,
+        });
+    });
+
+    test("does not match URLs without a KT1 contract", () => {
+        expect(matchToken(editartAdapter, "https://editart.xyz/token-detail/abc/7")).toBeUndefined();
+        expect(matchCollection(editartAdapter, "https://editart.xyz/series/abc")).toBeUndefined();
+    });
+});
@@ -0,0 +1,16 @@
+import type { MarketplaceAdapter } from "../types";
+
+export const editartAdapter: MarketplaceAdapter = {
+    key: "editart",
+    name: "EditArt",
+    icon: "https://www.editart.xyz/favicon.ico",
+    tokenPatterns: [/(?:https?:\/\/)?(?:www\.)?editart\.xyz\/token-detail\/(KT1[a-zA-Z0-9]{33})\/(\d+)(?:\?[^\s]*)?/i],
+    collectionPatterns: [
+        /(?:https?:\/\/)?(?:www\.)?editart\.xyz\/series\/(KT1[a-zA-Z0-9]{33})(?:\/[^\s]*)?/i, // editart.xyz/series/contract
+    ],
+    toTokenIdentity: (match) => (match[2] ? { contractAddress: match[1], tokenId: match[2] } : undefined),
+    toCollectionIdentity: (match) => ({ contractAddress: match[1] }), // EditArt URLs have contract address directly
+    // EditArt tokens are indexed in OBJKT and URLs include contract address
+    fetchStrategy: { source: "objkt" },
+    referralParam: "ref",
+};
@@ -0,0 +1,22 @@
+import { describe, expect, test } from "bun:test";
+import { eightbidouAdapter } from "./eightbidou.adapter";
+import { EIGHTBIDOU_CONTRACTS } from "./contracts";
+import { matchToken } from "./adapter-test-helpers";
+
+describe("eightbidouAdapter", () => {
+    test("resolves the contract from the canvas size", () => {
+        expect(matchToken(eightbidouAdapter, "https://8bidou.com/listing/8x8/1234/")).toEqual({
+            contractAddress: EIGHTBIDOU_CONTRACTS["8x8"],
+            tokenId: "1234",
+        });
+        expect(matchToken(eightbidouAdapter, "https://8bidou.com/item/24x24/56")).toEqual({
+            contractAddress: EIGHTBIDOU_CONTRACTS["24x24"],
+            tokenId: "56",
+        });
+    });
+
+    test("does not match unknown canvas sizes or other pages", () => {
+        expect(matchToken(eightbidouAdapter, "https://8bidou.com/listing/16x16/1234")).toBeUndefined();
+        expect(matchToken(eightbidouAdapter, "https://8bidou.com/user/tz1abc")).toBeUndefined();
+    });
+});
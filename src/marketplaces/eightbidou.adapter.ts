@@ -0,0 +1,17 @@
+import { EIGHTBIDOU_CONTRACTS } from "./contracts";
+import type { MarketplaceAdapter } from "../types";
+
+export const eightbidouAdapter: MarketplaceAdapter = {
+    key: "8bidou",
+    name: "8bidou",
+    icon: "https://8bidou.com/favicon.ico",
+    tokenPatterns: [
+        /(?:https?:\/\/)?(?:www\.)?8bidou\.com\/(?:listing|item)\/(8x8|24x24)\/(\d+)(?:\/)?(?:\?[^\s]*)?/i, // 8bidou.com/listing/SIZE/ID
+    ],
+    toTokenIdentity: (match) => {
+        const contractAddress = match[1] ? EIGHTBIDOU_CONTRACTS[match[1].toLowerCase()] : undefined;
+        return contractAddress && match[2] ? { contractAddress, tokenId: match[2] } : undefined;
+    },
+    // The contract depends on the canvas size in the URL, resolved in toTokenIdentity
+    fetchStrategy: { source: "objkt" },
+};
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { fxhashAdapter } from "./fxhash.adapter";
+import { matchCollection, matchToken } from "./adapter-test-helpers";
+
+describe("fxhashAdapter", () => {
+    test("matches gentk, iteration and token URLs", () => {
+        expect(matchToken(fxhashAdapter, "https://www.fxhash.xyz/gentk/123")).toEqual({
+            tokenId: "123",
+            chain: "tezos",
+        });
+        expect(matchToken(fxhashAdapter, "https://fxhash.xyz/gentk/FX1-456")).toEqual({
+            tokenId: "FX1-456",
+            chain: "tezos",
+        });
+        expect(matchToken(fxhashAdapter, "https://fxhash.xyz/iteration/some-slug")?.tokenId).toBe("some-slug");
+    });
+
+    test("takes the chain from a ?chain= parameter or a 0x id", () => {
+        expect(matchToken(fxhashAdapter, "https://fxhash.xyz/token/abc?chain=BASE")?.chain).toBe("base");
+        expect(
+            matchToken(fxhashAdapter, "https://fxhash.xyz/iteration/0x1234567890abcdef1234567890abcdef12345678-1")
+                ?.chain
+        ).toBe("ethereum");
+    });
+
+    test("matches generative and project URLs", () => {
+        expect(matchCollection(fxhashAdapter, "https://fxhash.xyz/generative/1234")).toEqual({ projectId: "1234" });
+        expect(matchCollection(fxhashAdapter, "https://fxhash.xyz/generative/slug/my-project")).toEqual({
+            projectId: "my-project",
+        });
+        expect(matchCollection(fxhashAdapter, "https://fxhash.xyz/project/other-project")).toEqual({
+            projectId: "other-project",
+        });
+    });
+
+    test("does not match other fxhash pages or other sites", () => {
+        expect(matchToken(fxhashAdapter, "https://fxhash.xyz/u/someone")).toBeUndefined();
+        expect(matchToken(fxhashAdapter, "https://objkt.com/tokens/fxhash/123")).toBeUndefined();
+        expect(matchCollection(fxhashAdapter, "https://fxhash.xyz/gentk/123")).toBeUndefined();
+    });
+});
@@ -0,0 +1,38 @@
+import { parseChain } from "../utils/chain";
+import type { Chain, MarketplaceAdapter } from "../types";
+
+/**
+ * Works out the chain of an fx(hash) token from an explicit ?chain= parameter or the shape of its id
+ */
+function chainFromUrl(url: string, tokenId: string): Chain {
+    const chainParam = url.match(/[?&]chain=([a-z]+)/i)?.[1];
+
+    if (chainParam) {
+        return parseChain(chainParam) || "tezos";
+    }
+
+    // EVM iterations are identified by their 0x contract address
+    return /^0x[0-9a-f]{40}/i.test(tokenId) ? "ethereum" : "tezos";
+}
+
+export const fxhashAdapter: MarketplaceAdapter = {
+    key: "fxhash",
+    name: "fxhash",
+    icon: "https://www.fxhash.xyz/favicon.ico",
+    tokenPatterns: [
+        // fxhash.xyz/gentk/123, /gentk/FX1-123, /gentk/<slug>, /iteration/<id-or-slug>, /token/<id>
+        /(?:https?:\/\/)?(?:www\.)?fxhash\.xyz\/(?:gentk|iteration|token)\/([\w-]+)(?:\?[^\s]*)?/i,
+    ],
+    collectionPatterns: [
+        /(?:https?:\/\/)?(?:www\.)?fxhash\.xyz\/generative\/(?:slug\/)?([\w-]+)(?:\?[^\s]*)?/i, // fxhash.xyz/generative/id or /generative/slug/name
+        /(?:https?:\/\/)?(?:www\.)?fxhash\.xyz\/project\/([^\/\?]+)(?:\?[^\s]*)?/i, // fxhash.xyz/project/slug
+    ],
+    toTokenIdentity: (match) => {
+        const tokenId = match[1];
+        return tokenId ? { tokenId, chain: chainFromUrl(match[0], tokenId) } : undefined;
+    },
+    toCollectionIdentity: (match) => ({ projectId: match[1] }),
+    // The fx(hash) API is tried first, TZKT with the gentk contract is the fallback
+    fetchStrategy: { source: "fxhash", contractAddress: "KT1KEa8z6vWXDJrVqtMrAeDVzsvxat3kHaCE" },
+    referralParam: "ref",
+};
@@ -0,0 +1,18 @@
+import { describe, expect, test } from "bun:test";
+import { hicetnuncAdapter } from "./hicetnunc.adapter";
+import { matchToken } from "./adapter-test-helpers";
+
+describe("hicetnuncAdapter", () => {
+    test("matches hic et nunc URLs and mirrors", () => {
+        expect(matchToken(hicetnuncAdapter, "https://www.hicetnunc.xyz/objkt/152")).toEqual({ tokenId: "152" });
+        expect(matchToken(hicetnuncAdapter, "https://hicetnunc.art/#/objkt/152")).toEqual({ tokenId: "152" });
+        expect(matchToken(hicetnuncAdapter, "https://hic.af/o/152")).toEqual({ tokenId: "152" });
+        expect(matchToken(hicetnuncAdapter, "https://objkt.one/o/152")).toEqual({ tokenId: "152" });
+    });
+
+    test("does not match profile pages or other sites", () => {
+        expect(matchToken(hicetnuncAdapter, "https://hicetnunc.xyz/tz/tz1abc")).toBeUndefined();
+        expect(matchToken(hicetnuncAdapter, "https://teia.art/objkt/152")).toBeUndefined();
+        expect(matchToken(hicetnuncAdapter, "https://objkt.com/objkt/152")).toBeUndefined();
+    });
+});
@@ -0,0 +1,15 @@
+import { MARKETPLACE_CONTRACTS } from "./contracts";
+import type { MarketplaceAdapter } from "../types";
+
+// hic et nunc is offline, but archived links and community mirrors still circulate
+export const hicetnuncAdapter: MarketplaceAdapter = {
+    key: "hicetnunc",
+    name: "hic et nunc",
+    icon: "https://teia.art/favicon.ico",
+    tokenPatterns: [
+        /(?:https?:\/\/)?(?:www\.)?(?:hicetnunc\.(?:art|xyz)|hic\.(?:art|af)|objkt\.one)\/(?:#\/)?(?:objkt|o)\/(\d+)(?:\?[^\s]*)?/i, // hicetnunc.art/objkt/ID and mirrors
+    ],
+    toTokenIdentity: (match) => (match[1] ? { tokenId: match[1] } : undefined),
+    // All HEN mirrors point at the HEN OBJKT contract, indexed by OBJKT
+    fetchStrategy: { source: "objkt", contractAddress: MARKETPLACE_CONTRACTS.hicetnunc },
+};
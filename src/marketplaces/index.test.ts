@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { getMarketplaceAdapter, getMarketplaceAdapters, registerMarketplaceAdapter } from "./index";
+import { objktAdapter } from "./objkt.adapter";
+import { teiaAdapter } from "./teia.adapter";
+
+describe("marketplace registry", () => {
+    test("consults objkt first and registers every adapter once", () => {
+        const keys = getMarketplaceAdapters().map((adapter) => adapter.key);
+
+        expect(keys[0]).toBe("objkt");
+        expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    test("looks adapters up by key or display name, case-insensitively", () => {
+        expect(getMarketplaceAdapter("teia")).toBe(teiaAdapter);
+        expect(getMarketplaceAdapter("OBJKT")).toBe(objktAdapter);
+        expect(getMarketplaceAdapter("unknown")).toBeUndefined();
+    });
+
+    test("replaces an adapter registered under the same key, keeping its position", () => {
+        const position = getMarketplaceAdapters().indexOf(teiaAdapter);
+        const replacement = { ...teiaAdapter, name: "Teia mirror" };
+
+        registerMarketplaceAdapter(replacement);
+        try {
+            expect(getMarketplaceAdapter("teia mirror")).toBe(replacement);
+            expect(getMarketplaceAdapters()[position]).toBe(replacement);
+        } finally {
+            registerMarketplaceAdapter(teiaAdapter);
+        }
+    });
+});
@@ -0,0 +1,63 @@
+import { objktAdapter } from "./objkt.adapter";
+import { fxhashAdapter } from "./fxhash.adapter";
+import { teiaAdapter } from "./teia.adapter";
+import { versumAdapter } from "./versum.adapter";
+import { bootloaderAdapter } from "./bootloader.adapter";
+import { editartAdapter } from "./editart.adapter";
+import { referenceAdapter } from "./reference.adapter";
+import { hicetnuncAdapter } from "./hicetnunc.adapter";
+import { eightbidouAdapter } from "./eightbidou.adapter";
+import { kalamintAdapter } from "./kalamint.adapter";
+import type { MarketplaceAdapter } from "../types";
+
+export {
+    MARKETPLACE_CONTRACTS,
+    FXHASH_GENTK_CONTRACTS,
+    EIGHTBIDOU_CONTRACTS,
+    MARKETPLACE_TRADING_CONTRACTS,
+    PURCHASE_ENTRYPOINTS,
+    isKTAddress,
+    isTzAddress,
+    isEVMAddress,
+} from "./contracts";
+
+// Adapters are consulted in registration order during link detection
+const adapters = new Map<string, MarketplaceAdapter>();
+
+/**
+ * Registers a marketplace adapter, replacing any adapter with the same key
+ */
+export function registerMarketplaceAdapter(adapter: MarketplaceAdapter): void {
+    adapters.set(adapter.key, adapter);
+}
+
+/**
+ * Returns all registered marketplace adapters
+ */
+export function getMarketplaceAdapters(): MarketplaceAdapter[] {
+    return Array.from(adapters.values());
+}
+
+/**
+ * Looks up a marketplace adapter by registry key or display name (case-insensitive)
+ */
+export function getMarketplaceAdapter(keyOrName: string): MarketplaceAdapter | undefined {
+    const needle = keyOrName.toLowerCase();
+    return (
+        adapters.get(needle) ||
+        getMarketplaceAdapters().find((adapter) => adapter.name.toLowerCase() === needle)
+    );
+}
+
+[
+    objktAdapter,
+    fxhashAdapter,
+    teiaAdapter,
+    versumAdapter,
+    bootloaderAdapter,
+    editartAdapter,
+    referenceAdapter,
+    hicetnuncAdapter,
+    eightbidouAdapter,
+    kalamintAdapter,
+].forEach(registerMarketplaceAdapter);
@@ -0,0 +1,15 @@
+import { describe, expect, test } from "bun:test";
+import { kalamintAdapter } from "./kalamint.adapter";
+import { matchToken } from "./adapter-test-helpers";
+
+describe("kalamintAdapter", () => {
+    test("matches kalamint.io/token/ID", () => {
+        expect(matchToken(kalamintAdapter, "https://kalamint.io/token/987")).toEqual({ tokenId: "987" });
+    });
+
+    test("does not match other pages or other sites", () => {
+        expect(matchToken(kalamintAdapter, "https://kalamint.io/collection/abc")).toBeUndefined();
+        expect(matchToken(kalamintAdapter, "https://kalamint.io/token/abc")).toBeUndefined();
+        expect(matchToken(kalamintAdapter, "https://objkt.com/tokens/kalamint/987")).toBeUndefined();
+    });
+});
@@ -0,0 +1,11 @@
+import { MARKETPLACE_CONTRACTS } from "./contracts";
+import type { MarketplaceAdapter } from "../types";
+
+export const kalamintAdapter: MarketplaceAdapter = {
+    key: "kalamint",
+    name: "Kalamint",
+    icon: "https://kalamint.io/favicon.ico",
+    tokenPatterns: [/(?:https?:\/\/)?(?:www\.)?kalamint\.io\/token\/(\d+)(?:\?[^\s]*)?/i],
+    toTokenIdentity: (match) => (match[1] ? { tokenId: match[1] } : undefined),
+    fetchStrategy: { source: "objkt", contractAddress: MARKETPLACE_CONTRACTS.kalamint },
+};
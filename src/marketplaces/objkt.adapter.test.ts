@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { objktAdapter } from "./objkt.adapter";
+import { matchCollection, matchToken } from "./adapter-test-helpers";
+
+const CONTRACT = "KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton";
+
+describe("objktAdapter", () => {
+    test("matches asset and tokens URLs with contract and token id", () => {
+        expect(matchToken(objktAdapter, `https://objkt.com/asset/${CONTRACT}/42`)).toEqual({
+            contractAddress: CONTRACT,
+            tokenId: "42",
+            chain: undefined,
+        });
+        expect(matchToken(objktAdapter, `https://www.objkt.com/tokens/hicetnunc/7?ref=abc`)).toEqual({
+            contractAddress: "hicetnunc",
+            tokenId: "7",
+            chain: undefined,
+        });
+    });
+
+    test("matches objkt.com/objkt/ID without a contract", () => {
+        expect(matchToken(objktAdapter, "objkt.com/objkt/123")).toEqual({ tokenId: "123" });
+    });
+
+    test("labels 0x contracts as Etherlink", () => {
+        const contract = "0x1234567890abcdef1234567890abcdef12345678";
+        expect(matchToken(objktAdapter, `https://objkt.com/tokens/${contract}/5`)?.chain).toBe("etherlink");
+    });
+
+    test("matches collection and project URLs", () => {
+        expect(matchCollection(objktAdapter, `https://objkt.com/collections/${CONTRACT}`)).toEqual({
+            contractAddress: CONTRACT,
+            projectId: undefined,
+        });
+        expect(matchCollection(objktAdapter, "https://objkt.com/collections/bootloader/projects/12")).toEqual({
+            contractAddress: "bootloader",
+            projectId: "12",
+        });
+    });
+
+    test("does not match other objkt pages or other sites", () => {
+        expect(matchToken(objktAdapter, "https://objkt.com/profile/tz1abc/created")).toBeUndefined();
+        expect(matchToken(objktAdapter, `https://objkt.com/asset/${CONTRACT}`)).toBeUndefined();
+        expect(matchToken(objktAdapter, `https://teia.art/objkt/42`)).toBeUndefined();
+        expect(matchCollection(objktAdapter, "https://objkt.com/explore")).toBeUndefined();
+    });
+});
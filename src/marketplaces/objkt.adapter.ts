@@ -0,0 +1,37 @@
+import { isEVMAddress } from "./contracts";
+import type { MarketplaceAdapter } from "../types";
+
+export const objktAdapter: MarketplaceAdapter = {
+    key: "objkt",
+    name: "OBJKT",
+    icon: "https://objkt.com/favicon.ico",
+    tokenPatterns: [
+        /(?:https?:\/\/)?(?:www\.)?objkt\.com\/asset\/([^\/\?]+)\/(\d+)(?:\?[^\s]*)?/i,
+        /(?:https?:\/\/)?(?:www\.)?objkt\.com\/tokens\/([^\/\?]+)\/(\d+)(?:\?[^\s]*)?/i,
+        /(?:https?:\/\/)?(?:www\.)?objkt\.com\/objkt\/(\d+)(?:\?[^\s]*)?/i, // Simple objkt.com/objkt/ID format
+    ],
+    collectionPatterns: [
+        /(?:https?:\/\/)?(?:www\.)?objkt\.com\/collections\/([^\/\?]+)\/projects\/(\d+)(?:\?[^\s]*)?/i, // objkt.com/collections/path/projects/id (more specific first)
+        /(?:https?:\/\/)?(?:www\.)?objkt\.com\/collections\/([^\/\?]+)(?!\/projects\/)(?:\?[^\s]*)?/i, // objkt.com/collections/contract (exclude /projects/)
+    ],
+    toTokenIdentity: (match) => {
+        if (match[1] && match[2]) {
+            // Pattern: objkt.com/asset/CONTRACT/ID or objkt.com/tokens/CONTRACT/ID
+            // 0x contracts are Etherlink (Tezos EVM L2) collections
+            return {
+                contractAddress: match[1],
+                tokenId: match[2],
+                chain: isEVMAddress(match[1]) ? "etherlink" : undefined,
+            };
+        }
+
+        // Pattern: objkt.com/objkt/ID
+        return match[1] ? { tokenId: match[1] } : undefined;
+    },
+    toCollectionIdentity: (match) => ({
+        contractAddress: match[1],
+        projectId: match[2], // For collections/path/projects/id format
+    }),
+    fetchStrategy: { source: "objkt" },
+    referralParam: "ref",
+};
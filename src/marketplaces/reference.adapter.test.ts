@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { referenceAdapter } from "./reference.adapter";
+import { matchCollection, matchToken } from "./adapter-test-helpers";
+
+const CONTRACT = "KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton";
+const IDENTITY = {
+    contractAddress: CONTRACT,
+    tokenId: "42",
+    url: `https://objkt.com/tokens/${CONTRACT}/42`,
+};
+
+describe("referenceAdapter", () => {
+    test("matches shorthand references", () => {
+        expect(matchToken(referenceAdapter, `${CONTRACT}/42`)).toEqual(IDENTITY);
+        expect(matchToken(referenceAdapter, `look at ${CONTRACT}:42`)).toEqual(IDENTITY);
+        expect(matchToken(referenceAdapter, `objkt:${CONTRACT}:42`)).toEqual(IDENTITY);
+    });
+
+    test("matches TzKT and Better Call Dev token pages", () => {
+        expect(matchToken(referenceAdapter, `https://tzkt.io/${CONTRACT}/tokens/42`)).toEqual(IDENTITY);
+        expect(matchToken(referenceAdapter, `https://better-call.dev/mainnet/${CONTRACT}/tokens/42`)).toEqual(IDENTITY);
+        expect(matchToken(referenceAdapter, `https://better-call.dev/mainnet/${CONTRACT}/tokens?token_id=42`)).toEqual(
+            IDENTITY
+        );
+    });
+
+    test("matches TzKT and Better Call Dev token lists as collections", () => {
+        expect(matchCollection(referenceAdapter, `https://tzkt.io/${CONTRACT}/tokens`)).toEqual({
+            contractAddress: CONTRACT,
+        });
+        expect(matchCollection(referenceAdapter, `https://better-call.dev/mainnet/${CONTRACT}/tokens`)).toEqual({
+            contractAddress: CONTRACT,
+        });
+    });
+
+    test("does not match contracts inside other URLs or without a token id", () => {
+        expect(matchToken(referenceAdapter, `https://objkt.com/tokens/${CONTRACT}/42`)).toBeUndefined();
+        expect(matchToken(referenceAdapter, `${CONTRACT}`)).toBeUndefined();
+        expect(matchCollection(referenceAdapter, `https://tzkt.io/${CONTRACT}/tokens/42`)).toBeUndefined();
+    });
+});
@@ -0,0 +1,42 @@
+import type { MarketplaceAdapter } from "../types";
+
+const KT1 = "KT1[1-9A-HJ-NP-Za-km-z]{33}";
+
+/**
+ * Shorthand token references (KT1.../42, KT1...:42, objkt:KT1...:42) and explorer token pages.
+ * They carry the contract address, so they are previewed through OBJKT with a canonical objkt.com link.
+ */
+export const referenceAdapter: MarketplaceAdapter = {
+    key: "reference",
+    name: "OBJKT",
+    icon: "https://objkt.com/favicon.ico",
+    tokenPatterns: [
+        new RegExp(`(?<![\\w/.:-])objkt:(${KT1}):(\\d+)\\b`, "i"), // objkt:KT1...:42
+        new RegExp(`(?<![\\w/.:-])(${KT1})[/:](\\d+)\\b`), // KT1.../42 or KT1...:42
+        new RegExp(`(?:https?://)?(?:www\\.)?tzkt\\.io/(${KT1})/tokens/(\\d+)[^\\s]*`, "i"), // tzkt.io/KT1.../tokens/42
+        new RegExp(
+            `(?:https?://)?(?:www\\.)?better-call\\.dev/mainnet/(${KT1})/tokens(?:/(\\d+)|\\?(?:[^\\s]*&)?token_id=(\\d+))[^\\s]*`,
+            "i"
+        ), // better-call.dev/mainnet/KT1.../tokens/42 or ?token_id=42
+    ],
+    collectionPatterns: [
+        new RegExp(`(?:https?://)?(?:www\\.)?tzkt\\.io/(${KT1})/tokens(?![/\\w])[^\\s]*`, "i"), // tzkt.io/KT1.../tokens
+        new RegExp(
+            `(?:https?://)?(?:www\\.)?better-call\\.dev/mainnet/(${KT1})/tokens(?!/\\d|\\?[^\\s]*token_id=)[^\\s]*`,
+            "i"
+        ), // better-call.dev/mainnet/KT1.../tokens
+    ],
+    toTokenIdentity: (match) => {
+        const contractAddress = match[1];
+        const tokenId = match[2] || match[3];
+
+        if (!contractAddress || !tokenId) {
+            return undefined;
+        }
+
+        return { contractAddress, tokenId, url: `https://objkt.com/tokens/${contractAddress}/${tokenId}` };
+    },
+    toCollectionIdentity: (match) => ({ contractAddress: match[1] }),
+    fetchStrategy: { source: "objkt" },
+    referralParam: "ref",
+};
@@ -0,0 +1,16 @@
+import { describe, expect, test } from "bun:test";
+import { teiaAdapter } from "./teia.adapter";
+import { matchToken } from "./adapter-test-helpers";
+
+describe("teiaAdapter", () => {
+    test("matches teia.art/objkt/ID", () => {
+        expect(matchToken(teiaAdapter, "https://teia.art/objkt/804556")).toEqual({ tokenId: "804556" });
+        expect(matchToken(teiaAdapter, "www.teia.art/objkt/1?ref=x")).toEqual({ tokenId: "1" });
+    });
+
+    test("does not match other teia pages or other sites", () => {
+        expect(matchToken(teiaAdapter, "https://teia.art/tz1abc")).toBeUndefined();
+        expect(matchToken(teiaAdapter, "https://teia.art/objkt/abc")).toBeUndefined();
+        expect(matchToken(teiaAdapter, "https://objkt.com/objkt/804556")).toBeUndefined();
+    });
+});
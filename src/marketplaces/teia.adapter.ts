@@ -0,0 +1,13 @@
+import { MARKETPLACE_CONTRACTS } from "./contracts";
+import type { MarketplaceAdapter } from "../types";
+
+export const teiaAdapter: MarketplaceAdapter = {
+    key: "teia",
+    name: "Teia",
+    icon: "https://teia.art/favicon.ico",
+    tokenPatterns: [/(?:https?:\/\/)?(?:www\.)?teia\.art\/objkt\/(\d+)(?:\?[^\s]*)?/i],
+    toTokenIdentity: (match) => (match[1] ? { tokenId: match[1] } : undefined),
+    // Teia uses HEN contract - OBJKT API indexes HEN tokens
+    fetchStrategy: { source: "objkt", contractAddress: MARKETPLACE_CONTRACTS.hicetnunc },
+    referralParam: "ref",
+};
@@ -0,0 +1,18 @@
+import { describe, expect, test } from "bun:test";
+import { versumAdapter } from "./versum.adapter";
+import { matchToken } from "./adapter-test-helpers";
+
+describe("versumAdapter", () => {
+    test("matches versum.xyz/token/CONTRACT/ID", () => {
+        expect(matchToken(versumAdapter, "https://versum.xyz/token/versum/12345")).toEqual({
+            contractAddress: "versum",
+            tokenId: "12345",
+        });
+    });
+
+    test("does not match token URLs without an id or other sites", () => {
+        expect(matchToken(versumAdapter, "https://versum.xyz/token/versum")).toBeUndefined();
+        expect(matchToken(versumAdapter, "https://versum.xyz/user/someone")).toBeUndefined();
+        expect(matchToken(versumAdapter, "https://objkt.com/tokens/versum/12345")).toBeUndefined();
+    });
+});
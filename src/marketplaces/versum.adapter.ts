@@ -0,0 +1,11 @@
+import type { MarketplaceAdapter } from "../types";
+
+export const versumAdapter: MarketplaceAdapter = {
+    key: "versum",
+    name: "Versum",
+    icon: "https://versum.xyz/favicon.ico",
+    tokenPatterns: [/(?:https?:\/\/)?(?:www\.)?versum\.xyz\/token\/([^\/\?]+)\/(\d+)(?:\?[^\s]*)?/i],
+    toTokenIdentity: (match) => (match[2] ? { contractAddress: match[1], tokenId: match[2] } : undefined),
+    fetchStrategy: { source: "tzkt" },
+    referralParam: "ref",
+};
@@ -0,0 +1,252 @@
+import type { Client, EmbedBuilder } from "discord.js";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { JsonStore } from "../utils/json-store";
+import { TzktApiService } from "./tzkt-api.service";
+import type { NFTService } from "./nft.service";
+import type { EmbedGeneratorService } from "./embed-generator.service";
+import type { ApiResponse, ArtistFollow, TzktTokenDetails } from "../types";
+
+interface ArtistWatchState {
+    follows: ArtistFollow[];
+    // Last posted TZKT token ID per artist address
+    cursors: Record<string, number>;
+}
+
+const MAX_FOLLOWS_PER_GUILD = 25;
+
+// Mints previewed per artist and poll, a batch mint is worked off over the following polls
+const MINTS_PER_POLL = 5;
+
+// TZKT and OBJKT index a mint shortly after it happens, wait this long for its metadata and preview before
+// posting without metadata or skipping the mint
+const METADATA_GRACE_PERIOD = 10 * 60 * 1000;
+
+/**
+ * Posts previews of new mints by followed artists to Discord channels
+ */
+export class ArtistWatchService {
+    private readonly client: Client;
+    private readonly nftService: NFTService;
+    private readonly embedService: EmbedGeneratorService;
+    private readonly tzktApi: TzktApiService;
+    private readonly store = new JsonStore<ArtistWatchState>("artist-follows.json", { follows: [], cursors: {} });
+    private readonly state: ArtistWatchState;
+    private pollTimer: ReturnType<typeof setInterval> | undefined;
+    private polling = false;
+
+    constructor(client: Client, nftService: NFTService, embedService: EmbedGeneratorService) {
+        this.client = client;
+        this.nftService = nftService;
+        this.embedService = embedService;
+        this.tzktApi = new TzktApiService();
+        this.state = this.store.load();
+    }
+
+    /**
+     * Starts polling followed artists
+     */
+    public start(): void {
+        if (this.pollTimer) {
+            return;
+        }
+
+        this.pollTimer = setInterval(() => void this.poll(), config.artistWatch.pollInterval * 1000);
+        logger.info(
+            `🎨 Artist watch polling every ${config.artistWatch.pollInterval}s (${this.state.follows.length} follow(s))`
+        );
+    }
+
+    /**
+     * Stops polling
+     */
+    public stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    /**
+     * Returns the artists a guild follows
+     */
+    public getFollows(guildId: string): ArtistFollow[] {
+        return this.state.follows.filter((follow) => follow.guildId === guildId);
+    }
+
+    /**
+     * Follows an artist in a channel. Only tokens minted after this point are posted.
+     */
+    public async follow(follow: Omit<ArtistFollow, "createdAt">): Promise<ApiResponse<ArtistFollow>> {
+        const guildFollows = this.getFollows(follow.guildId);
+        const existing = guildFollows.find(
+            (entry) => entry.channelId === follow.channelId && entry.address === follow.address
+        );
+
+        if (guildFollows.length >= MAX_FOLLOWS_PER_GUILD && !existing) {
+            return {
+                success: false,
+                error: `This server already follows ${MAX_FOLLOWS_PER_GUILD} artists, remove one first.`,
+            };
+        }
+
+        if (this.state.cursors[follow.address] === undefined) {
+            const latestResult = await this.tzktApi.getTokensByCreator(follow.address, 1);
+
+            if (!latestResult.success || !latestResult.data) {
+                return {
+                    success: false,
+                    error: latestResult.error || "Failed to fetch the artist's tokens",
+                };
+            }
+
+            // An artist without tokens yet starts from the first one
+            this.state.cursors[follow.address] = latestResult.data[0]?.id ?? 0;
+        }
+
+        // Following again in the same channel updates the role
+        const entry: ArtistFollow = { ...follow, createdAt: existing?.createdAt || new Date().toISOString() };
+        this.state.follows = this.state.follows.filter((current) => current !== existing);
+        this.state.follows.push(entry);
+        await this.store.save(this.state);
+
+        logger.info(`🎨 Following ${entry.address} → #${entry.channelId} in guild ${entry.guildId}`);
+        return { success: true, data: entry };
+    }
+
+    /**
+     * Stops following an artist, in one channel or in all of them
+     * @returns The removed follows
+     */
+    public async unfollow(guildId: string, address: string, channelId?: string): Promise<ArtistFollow[]> {
+        const isMatch = (follow: ArtistFollow): boolean =>
+            follow.guildId === guildId && follow.address === address && (!channelId || follow.channelId === channelId);
+
+        const removed = this.state.follows.filter(isMatch);
+        if (removed.length === 0) {
+            return [];
+        }
+
+        this.state.follows = this.state.follows.filter((follow) => !isMatch(follow));
+
+        // Forget the cursor once nobody follows the artist
+        if (!this.state.follows.some((follow) => follow.address === address)) {
+            delete this.state.cursors[address];
+        }
+
+        await this.store.save(this.state);
+
+        logger.info(`🎨 Removed ${removed.length} follow(s) of ${address} in guild ${guildId}`);
+        return removed;
+    }
+
+    /**
+     * Checks every followed artist for new mints
+     */
+    private async poll(): Promise<void> {
+        if (this.polling) {
+            return;
+        }
+
+        this.polling = true;
+        try {
+            const addresses = new Set(this.state.follows.map((follow) => follow.address));
+
+            for (const address of addresses) {
+                try {
+                    await this.pollArtist(address);
+                } catch (error) {
+                    logger.error(`Failed to poll mints of ${address}:`, error);
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Posts an artist's mints since their cursor to every following channel, advancing the cursor per mint
+     */
+    private async pollArtist(address: string): Promise<void> {
+        const cursor = this.state.cursors[address];
+        const result = await this.tzktApi.getTokensByCreator(address, MINTS_PER_POLL, cursor);
+
+        if (!result.success || !result.data) {
+            logger.warn(`Failed to fetch mints of ${address}: ${result.error}`);
+            return;
+        }
+
+        if (cursor === undefined) {
+            // The cursor couldn't be set when following, start from the latest mint
+            this.state.cursors[address] = result.data[0]?.id ?? 0;
+            await this.store.save(this.state);
+            return;
+        }
+
+        for (const token of result.data) {
+            const isFresh = Date.now() - new Date(token.firstTime).getTime() < METADATA_GRACE_PERIOD;
+
+            if (!token.metadata && isFresh) {
+                // Try again once TZKT has indexed the metadata
+                break;
+            }
+
+            const embed = await this.createMintEmbed(token);
+
+            if (!embed && isFresh) {
+                // OBJKT usually indexes mints after TZKT, try again on the next poll
+                break;
+            }
+
+            const follows = this.state.follows.filter((follow) => follow.address === address);
+
+            if (embed) {
+                for (const follow of follows) {
+                    await this.post(follow, embed);
+                }
+            }
+
+            // Also advanced when the preview still fails after the grace period, so mints are never posted twice
+            this.state.cursors[address] = token.id;
+            await this.store.save(this.state);
+        }
+    }
+
+    /**
+     * Builds the same rich preview as a posted token link
+     */
+    private async createMintEmbed(token: TzktTokenDetails): Promise<EmbedBuilder | undefined> {
+        const result = await this.nftService.fetchToken(
+            `https://objkt.com/tokens/${token.contract.address}/${token.tokenId}`
+        );
+
+        if (!result.success || !result.data) {
+            logger.warn(`Failed to preview mint ${token.contract.address}/${token.tokenId}: ${result.error}`);
+            return undefined;
+        }
+
+        return this.embedService.createNFTEmbed(result.data);
+    }
+
+    /**
+     * Sends a mint preview to a follow's channel, pinging its role if set
+     */
+    private async post(follow: ArtistFollow, embed: EmbedBuilder): Promise<void> {
+        try {
+            const channel = await this.client.channels.fetch(follow.channelId);
+
+            if (!channel?.isSendable()) {
+                logger.warn(`Follow channel ${follow.channelId} is unavailable, skipping ${follow.address}`);
+                return;
+            }
+
+            await channel.send({
+                content: `🎨 New mint by **${follow.name}**${follow.roleId ? ` <@&${follow.roleId}>` : ""}`,
+                embeds: [embed],
+                allowedMentions: { roles: follow.roleId ? [follow.roleId] : [] },
+            });
+        } catch (error) {
+            logger.error(`Failed to post mint of ${follow.address} to ${follow.channelId}:`, error);
+        }
+    }
+}
@@ -1,7 +1,25 @@
 import { EmbedBuilder, type ColorResolvable, type Client } from "discord.js";
-import type { TezosNFT, TezosCollection } from "../types/index.js";
+import type {
+    Chain,
+    TezosNFT,
+    TezosCollection,
+    TezosProfile,
+    TezosOperation,
+    WalletSummary,
+    HolderList,
+    TokenProvenance,
+    CollectionSaleEvent,
+    FeedSubscription,
+    ArtistFollow,
+    FloorAlert,
+    AuctionReminder,
+    TokenMarketSnapshot,
+    WatchedToken,
+} from "../types/index.js";
 import { logger } from "../utils/logger.js";
 import { config } from "../config.js";
+import { getMarketplaceAdapter } from "../marketplaces/index.js";
+import { CHAIN_NAMES } from "../utils/chain.js";
 
 export class EmbedGeneratorService {
     private discordClient: Client | undefined;
@@ -67,182 +85,1108 @@ export class EmbedGeneratorService {
             embed.setThumbnail(this.formatIpfsUrl(nft.metadata.thumbnailUri));
         }
 
+        // Flag tokens that live on another chain before anything else
+        this.addChainNotice(embed, nft.chain);
+
         // Add fields
         this.addNFTFields(embed, nft);
 
         // Set footer
         const iconUrl = this.getMarketplaceIcon(nft.marketplace.name);
         embed.setFooter({
-            text: `${nft.marketplace.name} • Tezos NFT Preview • by TheTezosCommunity`,
+            text: `${nft.marketplace.name} • ${CHAIN_NAMES[nft.chain || "tezos"]} NFT Preview • by TheTezosCommunity`,
             ...(iconUrl && { iconURL: iconUrl }),
         });
 
         // Set URL to marketplace
         if (nft.marketplace.url) {
-            embed.setURL(this.processMarketplaceUrl(nft.marketplace.url));
+            embed.setURL(this.processMarketplaceUrl(nft.marketplace.url, nft.marketplace.name));
         }
 
         // Add TTC links as inline fields at the bottom
+        this.addCommunityLinks(embed);
+
+        return embed;
+    }
+
+    /**
+     * Creates an error embed
+     */
+    public createErrorEmbed(message: string, details?: string): EmbedBuilder {
+        const embed = new EmbedBuilder()
+            .setColor(this.colors.error as ColorResolvable)
+            .setTitle("❌ Error")
+            .setDescription(this.truncateText(message, 300))
+            .setTimestamp();
+
+        if (details) {
+            embed.addFields({
+                name: "Details",
+                value: this.truncateText(details, 500),
+                inline: false,
+            });
+        }
+
+        return embed;
+    }
+
+    /**
+     * Creates a loading embed
+     */
+    public createLoadingEmbed(): EmbedBuilder {
+        return new EmbedBuilder()
+            .setColor(this.colors.info as ColorResolvable)
+            .setTitle("🔍 Loading NFT Preview...")
+            .setDescription("Fetching data from Tezos APIs...")
+            .setTimestamp();
+    }
+
+    /**
+     * Creates a rich embed for a collection
+     */
+    public createCollectionEmbed(collection: TezosCollection): EmbedBuilder {
+        const embed = new EmbedBuilder().setColor(this.colors.tezos as ColorResolvable).setTimestamp();
+
+        // Collection name and description
+        embed.setTitle(`🎨 ${this.truncateText(collection.name, 200)}`);
+        if (collection.description) {
+            embed.setDescription(this.truncateText(collection.description, 150)); // Much shorter for collections
+        }
+
+        // Collection logo
+        if (collection.logo) {
+            embed.setThumbnail(this.formatIpfsUrl(collection.logo));
+        }
+
+        // Flag projects that live on another chain
+        this.addChainNotice(embed, collection.chain);
+
+        // Collection stats
+        const stats = [];
+        if (collection.items !== undefined) {
+            stats.push(`**Items:** ${collection.items.toLocaleString()}`);
+        }
+        if (collection.owners !== undefined) {
+            stats.push(`**Owners:** ${collection.owners.toLocaleString()}`);
+        }
+        if (collection.editions !== undefined) {
+            stats.push(`**Editions:** ${collection.editions.toLocaleString()}`);
+        }
+
+        if (stats.length > 0) {
+            embed.addFields({
+                name: "📊 Collection Stats",
+                value: stats.join(" • "),
+                inline: false,
+            });
+        }
+
+        // Artist/Creator information
+        if (collection.verifiedCreators && collection.verifiedCreators.length > 0) {
+            const artistList = collection.verifiedCreators
+                .slice(0, 3) // Limit to 3 artists for brevity
+                .map((address) => this.formatAddress(address))
+                .join(", ");
+
+            const artistLabel = collection.verifiedCreators.length === 1 ? "👤 Artist" : "👥 Artists";
+            const artistValue =
+                collection.verifiedCreators.length > 3
+                    ? `${artistList} +${collection.verifiedCreators.length - 3} more`
+                    : artistList;
+
+            embed.addFields({
+                name: artistLabel,
+                value: this.truncateText(artistValue, 100),
+                inline: true,
+            });
+        }
+
+        // Mint progress for generative projects still minting
+        if (collection.mintProgress) {
+            const mintDetails = [
+                `**Minted:** ${collection.mintProgress.minted.toLocaleString()}/${collection.mintProgress.total.toLocaleString()}`,
+            ];
+            if (
+                collection.mintProgress.price !== undefined &&
+                collection.mintProgress.minted < collection.mintProgress.total
+            ) {
+                mintDetails.push(`**Mint Price:** ${collection.mintProgress.price} ꜩ`);
+            }
+
+            embed.addFields({
+                name: "⛏️ Mint Progress",
+                value: mintDetails.join(" • "),
+                inline: false,
+            });
+        }
+
+        // Floor price and volume
+        const financial = [];
+        if (collection.floorPrice !== undefined) {
+            financial.push(`**Floor:** ${collection.floorPrice} ꜩ`);
+        }
+        if (collection.volume24h !== undefined) {
+            financial.push(`**24h Volume:** ${collection.volume24h} ꜩ`);
+        }
+        if (collection.volumeTotal !== undefined) {
+            financial.push(`**Total Volume:** ${collection.volumeTotal.toLocaleString()} ꜩ`);
+        }
+
+        if (financial.length > 0) {
+            embed.addFields({
+                name: "💰 Market Data",
+                value: financial.join(" • "),
+                inline: false,
+            });
+        }
+
+        // Collection type
+        if (collection.collectionType) {
+            const typeDisplay = collection.collectionType.replace("_", " ").toUpperCase();
+            embed.addFields({
+                name: "🏷️ Collection Type",
+                value: typeDisplay,
+                inline: true,
+            });
+        }
+
+        // Contract address
+        embed.addFields({
+            name: "📜 Contract",
+            value: `\`${collection.contract}\``,
+            inline: true,
+        });
+
+        // Set footer
+        const iconUrl = this.getMarketplaceIcon(collection.marketplace.name);
+        embed.setFooter({
+            text: `${collection.marketplace.name} • ${
+                CHAIN_NAMES[collection.chain || "tezos"]
+            } Collection Preview • by TheTezosCommunity`,
+            ...(iconUrl && { iconURL: iconUrl }),
+        });
+
+        // Set URL to marketplace
+        if (collection.marketplace.url) {
+            embed.setURL(this.processMarketplaceUrl(collection.marketplace.url, collection.marketplace.name));
+        }
+
+        // Add TTC links as inline fields
+        this.addCommunityLinks(embed);
+
+        return embed;
+    }
+
+    /**
+     * Creates a rich embed for a wallet profile
+     */
+    public createProfileEmbed(profile: TezosProfile): EmbedBuilder {
+        const embed = new EmbedBuilder().setColor(this.colors.tezos as ColorResolvable).setTimestamp();
+
+        const name = profile.alias || profile.domain || this.formatAddress(profile.address);
+        embed.setTitle(`👤 ${this.truncateText(name, 200)}`);
+
+        if (profile.description) {
+            embed.setDescription(this.truncateText(profile.description, 200));
+        }
+
+        // Avatar
+        if (profile.avatar) {
+            embed.setThumbnail(this.formatIpfsUrl(profile.avatar));
+        }
+
+        // Socials
+        const socialLinks: string[] = [];
+        if (profile.discord) {
+            socialLinks.push(`💬 ${this.formatDiscordMention(profile.discord)}`);
+        }
+        if (profile.twitter) {
+            const twitterHandle = this.extractTwitterHandle(profile.twitter);
+            socialLinks.push(`🐦 [@${twitterHandle}](https://twitter.com/${twitterHandle})`);
+        }
+        if (profile.instagram) {
+            const instagramHandle = profile.instagram.replace(/^@/, "").replace(/^.*instagram\.com\//, "");
+            socialLinks.push(`📷 [@${instagramHandle}](https://instagram.com/${instagramHandle})`);
+        }
+        if (profile.website) {
+            const websiteUrl = profile.website.startsWith("http") ? profile.website : `https://${profile.website}`;
+            socialLinks.push(`🌐 [Website](${websiteUrl})`);
+        }
+
+        if (socialLinks.length > 0) {
+            embed.addFields({
+                name: "🔗 Socials",
+                value: this.truncateText(socialLinks.join(" • "), this.limits.fieldValue),
+                inline: false,
+            });
+        }
+
+        // Created / collected counts
+        const stats = [];
+        if (profile.createdCount !== undefined) {
+            stats.push(`**Created:** ${profile.createdCount.toLocaleString()}`);
+        }
+        if (profile.collectedCount !== undefined) {
+            stats.push(`**Collected:** ${profile.collectedCount.toLocaleString()}`);
+        }
+
+        if (stats.length > 0) {
+            embed.addFields({
+                name: "📊 Stats",
+                value: stats.join(" • "),
+                inline: false,
+            });
+        }
+
+        // Recently minted tokens
+        if (profile.recentMints && profile.recentMints.length > 0) {
+            const mintList = profile.recentMints
+                .slice(0, 5)
+                .map((mint) => `• [${this.truncateText(mint.name, 40)}](${mint.url})`)
+                .join("\n");
+
+            embed.addFields({
+                name: "🆕 Recently Minted",
+                value: this.truncateText(mintList, this.limits.fieldValue),
+                inline: false,
+            });
+
+            // Show the latest mint as the main image when there is no avatar
+            const latestImage = profile.recentMints.find((mint) => mint.imageUrl)?.imageUrl;
+            if (!profile.avatar && latestImage) {
+                embed.setImage(latestImage);
+            }
+        }
+
+        // Address (and domain if the title shows the alias)
+        const addressLines = [`\`${profile.address}\``];
+        if (profile.domain && profile.alias) {
+            addressLines.push(profile.domain);
+        }
+        embed.addFields({
+            name: "📍 Address",
+            value: addressLines.join("\n"),
+            inline: false,
+        });
+
+        // Set footer
+        const iconUrl = this.getMarketplaceIcon("OBJKT");
+        embed.setFooter({
+            text: "OBJKT • Tezos Profile Preview • by TheTezosCommunity",
+            ...(iconUrl && { iconURL: iconUrl }),
+        });
+
+        embed.setURL(this.processMarketplaceUrl(profile.url, "OBJKT"));
+
+        // Add TTC links as inline fields
+        this.addCommunityLinks(embed);
+
+        return embed;
+    }
+
+    /**
+     * Creates an artist card followed by one compact embed per recent mint (thumbnail and current ask)
+     */
+    public createArtistEmbeds(profile: TezosProfile): EmbedBuilder[] {
+        const embed = new EmbedBuilder().setColor(this.colors.tezos as ColorResolvable).setTimestamp();
+
+        const name = profile.alias || profile.domain || this.formatAddress(profile.address);
+        embed.setTitle(`🎨 ${this.truncateText(name, 200)}`);
+        embed.setURL(this.processMarketplaceUrl(profile.url, "OBJKT"));
+
+        if (profile.description) {
+            embed.setDescription(this.truncateText(profile.description, 300));
+        }
+
+        if (profile.avatar) {
+            embed.setThumbnail(this.formatIpfsUrl(profile.avatar));
+        }
+
+        embed.addFields({
+            name: "👤 Artist",
+            value: this.truncateText(this.formatCreatorInfo(profile), this.limits.fieldValue),
+            inline: false,
+        });
+
+        const stats = [];
+        if (profile.createdCount !== undefined) {
+            stats.push(`**Created:** ${profile.createdCount.toLocaleString()}`);
+        }
+        if (profile.collectedCount !== undefined) {
+            stats.push(`**Collected:** ${profile.collectedCount.toLocaleString()}`);
+        }
+
+        if (stats.length > 0) {
+            embed.addFields({
+                name: "📊 Stats",
+                value: stats.join(" • "),
+                inline: false,
+            });
+        }
+
+        embed.addFields({
+            name: "📍 Address",
+            value: profile.domain ? `\`${profile.address}\`\n${profile.domain}` : `\`${profile.address}\``,
+            inline: false,
+        });
+
+        const iconUrl = this.getMarketplaceIcon("OBJKT");
+        embed.setFooter({
+            text: "OBJKT • Tezos Artist • by TheTezosCommunity",
+            ...(iconUrl && { iconURL: iconUrl }),
+        });
+
+        // Discord allows 10 embeds per message, the artist card takes one
+        const mintEmbeds = (profile.recentMints || []).slice(0, 9).map((mint) => {
+            const mintEmbed = new EmbedBuilder()
+                .setColor(this.colors.primary as ColorResolvable)
+                .setTitle(this.truncateText(mint.name, 100))
+                .setURL(this.processMarketplaceUrl(mint.url, "OBJKT"))
+                .addFields({
+                    name: "💰 Lowest Ask",
+                    value: mint.lowestAsk !== undefined ? `${mint.lowestAsk} ꜩ` : "Not listed",
+                    inline: true,
+                });
+
+            if (mint.imageUrl) {
+                mintEmbed.setThumbnail(this.formatIpfsUrl(mint.imageUrl));
+            }
+
+            if (mint.mintedAt) {
+                mintEmbed.addFields({
+                    name: "🕒 Minted",
+                    value: `<t:${Math.floor(new Date(mint.mintedAt).getTime() / 1000)}:R>`,
+                    inline: true,
+                });
+            }
+
+            return mintEmbed;
+        });
+
+        return [embed, ...mintEmbeds];
+    }
+
+    /**
+     * Creates a portfolio summary embed for a wallet
+     */
+    public createWalletEmbed(wallet: WalletSummary): EmbedBuilder {
+        const embed = new EmbedBuilder().setColor(this.colors.tezos as ColorResolvable).setTimestamp();
+
+        const name = wallet.domain || wallet.alias || this.formatAddress(wallet.address);
+        embed.setTitle(`👛 ${this.truncateText(name, 200)}`);
+        embed.setURL(this.processMarketplaceUrl(wallet.url, "OBJKT"));
+
+        // Holdings
+        const plus = wallet.truncated ? "+" : "";
+        const stats = [
+            `**Tokens:** ${wallet.tokenCount.toLocaleString()}${plus}`,
+            `**Editions:** ${wallet.editionCount.toLocaleString()}${plus}`,
+            `**Collections:** ${wallet.collectionCount.toLocaleString()}${plus}`,
+        ];
+        if (wallet.createdCount !== undefined) {
+            stats.push(`**Created:** ${wallet.createdCount.toLocaleString()}`);
+        }
+
+        embed.addFields({
+            name: "📊 Holdings",
+            value: stats.join(" • "),
+            inline: false,
+        });
+
+        // Top collections by number of tokens held
+        if (wallet.topCollections.length > 0) {
+            const collectionList = wallet.topCollections
+                .map((collection) => {
+                    const floor = collection.floorPrice !== undefined ? ` • floor ${collection.floorPrice} ꜩ` : "";
+                    return `• [${this.truncateText(collection.name, 40)}](https://objkt.com/collections/${
+                        collection.contract
+                    }) — ${collection.tokenCount.toLocaleString()} token(s)${floor}`;
+                })
+                .join("\n");
+
+            embed.addFields({
+                name: "🏆 Top Collections",
+                value: this.truncateText(collectionList, this.limits.fieldValue),
+                inline: false,
+            });
+        }
+
+        if (wallet.estimatedValue !== undefined) {
+            embed.addFields({
+                name: "💰 Est. Floor Value",
+                value: `~${Math.round(wallet.estimatedValue).toLocaleString()} ꜩ (top collections)`,
+                inline: false,
+            });
+        }
+
+        // Recently collected tokens
+        if (wallet.recentlyCollected.length > 0) {
+            const recentList = wallet.recentlyCollected
+                .map((token) => `• [${this.truncateText(token.name, 40)}](${token.url})`)
+                .join("\n");
+
+            embed.addFields({
+                name: "🛒 Recently Collected",
+                value: this.truncateText(recentList, this.limits.fieldValue),
+                inline: false,
+            });
+        }
+
+        embed.addFields({
+            name: "📍 Address",
+            value: `\`${wallet.address}\``,
+            inline: false,
+        });
+
+        const iconUrl = this.getMarketplaceIcon("OBJKT");
+        embed.setFooter({
+            text: "TZKT • OBJKT • Tezos Wallet Summary • by TheTezosCommunity",
+            ...(iconUrl && { iconURL: iconUrl }),
+        });
+
+        return embed;
+    }
+
+    /**
+     * Creates one page of a token or collection holder list
+     * @param page Zero-based page index
+     */
+    public createHoldersEmbed(list: HolderList, page: number, pageSize: number): EmbedBuilder {
+        const embed = new EmbedBuilder().setColor(this.colors.tezos as ColorResolvable).setTimestamp();
+
+        embed.setTitle(`👥 Holders of ${this.truncateText(list.name, 180)}`);
+        embed.setURL(this.processMarketplaceUrl(list.url, "OBJKT"));
+
+        const pageCount = Math.max(1, Math.ceil(list.holders.length / pageSize));
+        const start = page * pageSize;
+
+        const lines = list.holders.slice(start, start + pageSize).map((holder, index) => {
+            const name = holder.alias || this.formatAddress(holder.address);
+            const share = list.totalSupply > 0 ? ((holder.balance / list.totalSupply) * 100).toFixed(2) : "0";
+            return `**${start + index + 1}.** [${this.truncateText(name, 40)}](https://objkt.com/profile/${
+                holder.address
+            }) — ${holder.balance.toLocaleString()} (${share}%)`;
+        });
+
+        embed.setDescription(lines.length > 0 ? lines.join("\n") : "No holders found.");
+
+        const plus = list.truncated ? "+" : "";
         embed.addFields(
             {
-                name: "\u200b", // Invisible character
-                value: "[Join TTC Discord](https://discord.gg/beq5pMzvDY)",
+                name: "👥 Holders",
+                value: `${list.holders.length.toLocaleString()}${plus}`,
                 inline: true,
             },
             {
-                name: "\u200b", // Invisible character
-                value: "[TTC Hub](https://thetezos.com)",
+                name: "📦 Supply Held",
+                value: `${list.totalSupply.toLocaleString()}${plus}`,
                 inline: true,
             },
             {
-                name: "\u200b", // Invisible character
-                value: "[Events Calendar](https://thetezos.com/calendar-view/)",
+                name: "📜 Contract",
+                value: list.tokenId ? `\`${list.contract}\` #${list.tokenId}` : `\`${list.contract}\``,
+                inline: false,
+            }
+        );
+
+        embed.setFooter({
+            text: `Page ${page + 1}/${pageCount} • TZKT • Tezos Holders • by TheTezosCommunity`,
+        });
+
+        return embed;
+    }
+
+    /**
+     * Creates a provenance embed listing a token's mint, transfers, burns and sales
+     */
+    public createProvenanceEmbed(provenance: TokenProvenance): EmbedBuilder {
+        const embed = new EmbedBuilder().setColor(this.colors.tezos as ColorResolvable).setTimestamp();
+
+        embed.setTitle(`📜 History of ${this.truncateText(provenance.name, 180)}`);
+        embed.setURL(this.processMarketplaceUrl(provenance.url, "OBJKT"));
+
+        const icons = { mint: "🌱", transfer: "📦", sale: "💰", burn: "🔥" };
+        const labels = { mint: "Minted", transfer: "Transfer", sale: "Sale", burn: "Burned" };
+        const formatParty = (party?: { address: string; alias?: string | undefined }): string =>
+            party ? party.alias || this.formatAddress(party.address) : "?";
+
+        const lines = provenance.entries.map((entry) => {
+            const parts = [`${icons[entry.type]} **${labels[entry.type]}**`];
+
+            if (entry.amount > 1) {
+                parts.push(`×${entry.amount}`);
+            }
+            if (entry.price !== undefined) {
+                const price = `${entry.price} ꜩ${entry.marketplace ? ` on ${entry.marketplace}` : ""}`;
+                parts.push(entry.url ? `[${price}](${entry.url})` : price);
+            }
+
+            if (entry.type === "mint") {
+                parts.push(`by ${formatParty(entry.to)}`);
+            } else if (entry.type === "burn") {
+                parts.push(`by ${formatParty(entry.from)}`);
+            } else {
+                parts.push(`${formatParty(entry.from)} → ${formatParty(entry.to)}`);
+            }
+
+            parts.push(`<t:${Math.floor(new Date(entry.timestamp).getTime() / 1000)}:d>`);
+            return parts.join(" • ");
+        });
+
+        embed.setDescription(
+            lines.length > 0
+                ? this.truncateText(lines.join("\n"), this.limits.description)
+                : "No transfers or sales found."
+        );
+
+        embed.addFields({
+            name: "📜 Token",
+            value: `\`${provenance.contract}\` #${provenance.tokenId}`,
+            inline: false,
+        });
+
+        embed.setFooter({
+            text: "TZKT • OBJKT • Token History • by TheTezosCommunity",
+        });
+
+        return embed;
+    }
+
+    /**
+     * Creates a compact embed for a collection feed sale or listing
+     */
+    public createSaleEmbed(event: CollectionSaleEvent): EmbedBuilder {
+        const isSale = event.type === "sale";
+        const embed = new EmbedBuilder()
+            .setColor((isSale ? this.colors.success : this.colors.info) as ColorResolvable)
+            .setTitle(`${isSale ? "💰 Sold" : "🏷️ Listed"}: ${this.truncateText(event.tokenName, 200)}`)
+            .setURL(this.processMarketplaceUrl(event.url, "OBJKT"))
+            .setTimestamp(new Date(event.timestamp));
+
+        if (event.imageUrl) {
+            embed.setThumbnail(this.formatIpfsUrl(event.imageUrl));
+        }
+
+        const formatParty = (party: { address: string; alias?: string | undefined }): string =>
+            `[${this.truncateText(party.alias || this.formatAddress(party.address), 40)}](https://objkt.com/profile/${
+                party.address
+            })`;
+
+        const lines = [
+            `**${event.price !== undefined ? `${event.price} ꜩ` : "No price"}**${
+                event.amount > 1 ? ` • ×${event.amount}` : ""
+            }${event.marketplace ? ` on ${event.marketplace}` : ""}`,
+        ];
+        if (event.seller) {
+            lines.push(`${isSale ? "Seller" : "Listed by"}: ${formatParty(event.seller)}`);
+        }
+        if (event.buyer) {
+            lines.push(`Buyer: ${formatParty(event.buyer)}`);
+        }
+
+        embed.setDescription(lines.join("\n"));
+
+        embed.setFooter({
+            text: `${
+                event.collectionName ? `${this.truncateText(event.collectionName, 60)} • ` : ""
+            }OBJKT • Sales Feed • by TheTezosCommunity`,
+        });
+
+        return embed;
+    }
+
+    /**
+     * Creates an embed listing a server's collection feeds
+     * @param message Shown above the list, e.g. to confirm a change
+     */
+    public createFeedsEmbed(feeds: FeedSubscription[], message?: string): EmbedBuilder {
+        const embed = new EmbedBuilder()
+            .setColor(this.colors.tezos as ColorResolvable)
+            .setTitle("📰 Collection Feeds")
+            .setTimestamp();
+
+        const lines = feeds.map(
+            (feed) =>
+                `• [${this.truncateText(feed.collectionName, 60)}](https://objkt.com/collections/${
+                    feed.contract
+                }) → <#${feed.channelId}>`
+        );
+
+        embed.setDescription(
+            this.truncateText(
+                [message, lines.length > 0 ? lines.join("\n") : "No feeds yet, add one with `/feed add`."]
+                    .filter(Boolean)
+                    .join("\n\n"),
+                this.limits.description
+            )
+        );
+
+        embed.setFooter({
+            text: "OBJKT • Sales Feed • by TheTezosCommunity",
+        });
+
+        return embed;
+    }
+
+    /**
+     * Creates an embed listing the artists a server follows
+     * @param message Shown above the list, e.g. to confirm a change
+     */
+    public createFollowsEmbed(follows: ArtistFollow[], message?: string): EmbedBuilder {
+        const embed = new EmbedBuilder()
+            .setColor(this.colors.tezos as ColorResolvable)
+            .setTitle("🎨 Followed Artists")
+            .setTimestamp();
+
+        const lines = follows.map(
+            (follow) =>
+                `• [${this.truncateText(follow.name, 60)}](https://objkt.com/profile/${follow.address}) → <#${
+                    follow.channelId
+                }>${follow.roleId ? ` • <@&${follow.roleId}>` : ""}`
+        );
+
+        embed.setDescription(
+            this.truncateText(
+                [message, lines.length > 0 ? lines.join("\n") : "No artists followed yet, add one with `/follow add`."]
+                    .filter(Boolean)
+                    .join("\n\n"),
+                this.limits.description
+            )
+        );
+
+        embed.setFooter({
+            text: "TZKT • New Mints • by TheTezosCommunity",
+        });
+
+        return embed;
+    }
+
+    /**
+     * Creates the notification sent when a collection floor crosses an alert's threshold
+     * @param floor The current floor price in tez
+     */
+    public createFloorAlertEmbed(alert: FloorAlert, floor: number): EmbedBuilder {
+        const isBelow = alert.direction === "below";
+        const embed = new EmbedBuilder()
+            .setColor((isBelow ? this.colors.warning : this.colors.success) as ColorResolvable)
+            .setTitle(
+                `${isBelow ? "📉" : "📈"} ${this.truncateText(alert.collectionName, 180)} floor is ${alert.direction} ${
+                    alert.threshold
+                } ꜩ`
+            )
+            .setURL(this.processMarketplaceUrl(`https://objkt.com/collections/${alert.contract}`, "OBJKT"))
+            .setTimestamp();
+
+        embed.addFields(
+            {
+                name: "🏷️ Floor",
+                value: `${floor} ꜩ`,
+                inline: true,
+            },
+            {
+                name: "🔔 Threshold",
+                value: `${isBelow ? "Below" : "Above"} ${alert.threshold} ꜩ`,
                 inline: true,
             }
         );
 
+        embed.setFooter({
+            text: `Alert #${alert.id} • OBJKT • Floor Alerts • by TheTezosCommunity`,
+        });
+
+        return embed;
+    }
+
+    /**
+     * Creates an embed listing a user's floor alerts
+     * @param message Shown above the list, e.g. to confirm a change
+     */
+    public createAlertsEmbed(alerts: FloorAlert[], message?: string): EmbedBuilder {
+        const embed = new EmbedBuilder()
+            .setColor(this.colors.tezos as ColorResolvable)
+            .setTitle("🔔 Floor Alerts")
+            .setTimestamp();
+
+        const lines = alerts.map(
+            (alert) =>
+                `**#${alert.id}** [${this.truncateText(alert.collectionName, 60)}](https://objkt.com/collections/${
+                    alert.contract
+                }) ${alert.direction} ${alert.threshold} ꜩ • ${alert.notify === "dm" ? "DM" : `<#${alert.channelId}>`}${
+                    alert.armed ? "" : " • fired, waiting for the floor to move back"
+                }`
+        );
+
+        embed.setDescription(
+            this.truncateText(
+                [message, lines.length > 0 ? lines.join("\n") : "No alerts yet, add one with `/alert floor`."]
+                    .filter(Boolean)
+                    .join("\n\n"),
+                this.limits.description
+            )
+        );
+
+        embed.setFooter({
+            text: "OBJKT • Floor Alerts • by TheTezosCommunity",
+        });
+
+        return embed;
+    }
+
+    /**
+     * Creates an embed listing a user's auction reminders
+     * @param message Shown above the list, e.g. to confirm a change
+     */
+    public createRemindersEmbed(reminders: AuctionReminder[], message?: string): EmbedBuilder {
+        const embed = new EmbedBuilder()
+            .setColor(this.colors.tezos as ColorResolvable)
+            .setTitle("⏰ Auction Reminders")
+            .setTimestamp();
+
+        const toUnix = (time: string): number => Math.floor(new Date(time).getTime() / 1000);
+        const lines = reminders.map(
+            (reminder) =>
+                `**#${reminder.id}** [${this.truncateText(reminder.tokenName, 60)}](${reminder.url}) • ends <t:${toUnix(
+                    reminder.endTime
+                )}:R> • DM <t:${toUnix(reminder.remindAt)}:t>`
+        );
+
+        embed.setDescription(
+            this.truncateText(
+                [
+                    message,
+                    lines.length > 0 ? lines.join("\n") : "No reminders, use **Remind me** on an auction preview.",
+                ]
+                    .filter(Boolean)
+                    .join("\n\n"),
+                this.limits.description
+            )
+        );
+
+        embed.setFooter({
+            text: `DMs are sent ${config.reminders.leadMinutes} min before the end • by TheTezosCommunity`,
+        });
+
         return embed;
     }
 
     /**
-     * Creates an error embed
+     * Creates the DM summarizing how a watched token's market changed since it was last reported
+     * @param current The token's new market state, the token's snapshot holds the previous one
      */
-    public createErrorEmbed(message: string, details?: string): EmbedBuilder {
+    public createWatchlistChangeEmbed(token: WatchedToken, current: TokenMarketSnapshot): EmbedBuilder {
+        const previous = token.snapshot;
         const embed = new EmbedBuilder()
-            .setColor(this.colors.error as ColorResolvable)
-            .setTitle("❌ Error")
-            .setDescription(this.truncateText(message, 300))
+            .setColor(this.colors.info as ColorResolvable)
+            .setTitle(`👀 ${this.truncateText(token.name, 200)}`)
+            .setURL(this.processMarketplaceUrl(token.url, "OBJKT"))
             .setTimestamp();
 
-        if (details) {
+        if (token.imageUrl) {
+            embed.setThumbnail(this.formatIpfsUrl(token.imageUrl));
+        }
+
+        const formatPrice = (price: number | undefined, none: string): string =>
+            price !== undefined ? `${price} ꜩ` : none;
+
+        if (previous.lowestAsk !== current.lowestAsk) {
             embed.addFields({
-                name: "Details",
-                value: this.truncateText(details, 500),
+                name: "💰 Lowest Ask",
+                value: `${formatPrice(previous.lowestAsk, "Not listed")} → **${formatPrice(
+                    current.lowestAsk,
+                    "Not listed"
+                )}**`,
+                inline: false,
+            });
+        }
+
+        if (previous.auctionActive !== current.auctionActive) {
+            embed.addFields({
+                name: "🔼 Auction",
+                value: current.auctionActive ? "**Started**" : "**Ended**",
+                inline: false,
+            });
+        }
+
+        if (current.auctionActive && previous.auctionBid !== current.auctionBid) {
+            embed.addFields({
+                name: "🔼 Highest Bid",
+                value: `${formatPrice(previous.auctionBid, "No bids")} → **${formatPrice(
+                    current.auctionBid,
+                    "No bids"
+                )}**`,
+                inline: false,
+            });
+        }
+
+        if (previous.openEditionActive !== current.openEditionActive) {
+            embed.addFields({
+                name: "🎆 Open Edition",
+                value: current.openEditionActive ? "**Minting opened**" : "**Minting closed**",
                 inline: false,
             });
         }
 
+        embed.setFooter({
+            text: `Watchlist #${token.id} • OBJKT • by TheTezosCommunity`,
+        });
+
         return embed;
     }
 
     /**
-     * Creates a loading embed
+     * Creates an embed listing a user's watched tokens with their current market state
+     * @param message Shown above the list, e.g. to confirm a change
      */
-    public createLoadingEmbed(): EmbedBuilder {
-        return new EmbedBuilder()
-            .setColor(this.colors.info as ColorResolvable)
-            .setTitle("🔍 Loading NFT Preview...")
-            .setDescription("Fetching data from Tezos APIs...")
+    public createWatchlistEmbed(tokens: WatchedToken[], message?: string): EmbedBuilder {
+        const embed = new EmbedBuilder()
+            .setColor(this.colors.tezos as ColorResolvable)
+            .setTitle("👀 Watchlist")
             .setTimestamp();
+
+        const lines = tokens.map((token) => {
+            const state = [token.snapshot.lowestAsk !== undefined ? `ask ${token.snapshot.lowestAsk} ꜩ` : "not listed"];
+            if (token.snapshot.auctionActive) {
+                state.push(
+                    token.snapshot.auctionBid !== undefined ? `bid ${token.snapshot.auctionBid} ꜩ` : "auction, no bids"
+                );
+            }
+            if (token.snapshot.openEditionActive) {
+                state.push("open edition");
+            }
+
+            return `**#${token.id}** [${this.truncateText(token.name, 60)}](${token.url}) • ${state.join(" • ")}`;
+        });
+
+        embed.setDescription(
+            this.truncateText(
+                [
+                    message,
+                    lines.length > 0 ? lines.join("\n") : "Your watchlist is empty, add a token with `/watchlist add`.",
+                ]
+                    .filter(Boolean)
+                    .join("\n\n"),
+                this.limits.description
+            )
+        );
+
+        embed.setFooter({
+            text: "Changes are sent by DM • OBJKT • by TheTezosCommunity",
+        });
+
+        return embed;
     }
 
     /**
-     * Creates a rich embed for a collection
+     * Creates a rarity breakdown embed for a token: rank plus every trait with its frequency
      */
-    public createCollectionEmbed(collection: TezosCollection): EmbedBuilder {
+    public createRarityEmbed(nft: TezosNFT): EmbedBuilder {
         const embed = new EmbedBuilder().setColor(this.colors.tezos as ColorResolvable).setTimestamp();
 
-        // Collection name and description
-        embed.setTitle(`🎨 ${this.truncateText(collection.name, 200)}`);
-        if (collection.description) {
-            embed.setDescription(this.truncateText(collection.description, 150)); // Much shorter for collections
-        }
+        embed.setTitle(`💎 ${this.truncateText(nft.name, 200)}`);
+        embed.setURL(this.processMarketplaceUrl(nft.marketplace.url, nft.marketplace.name));
 
-        // Collection logo
-        if (collection.logo) {
-            embed.setThumbnail(this.formatIpfsUrl(collection.logo));
+        if (nft.metadata?.thumbnailUri || nft.imageUrl) {
+            embed.setThumbnail(this.formatIpfsUrl(nft.metadata?.thumbnailUri || nft.imageUrl || ""));
         }
 
-        // Collection stats
-        const stats = [];
-        if (collection.items !== undefined) {
-            stats.push(`**Items:** ${collection.items.toLocaleString()}`);
-        }
-        if (collection.owners !== undefined) {
-            stats.push(`**Owners:** ${collection.owners.toLocaleString()}`);
-        }
-        if (collection.editions !== undefined) {
-            stats.push(`**Editions:** ${collection.editions.toLocaleString()}`);
+        if (!nft.rarity) {
+            embed.setDescription("No trait data available for this token's collection.");
+            return embed;
         }
 
-        if (stats.length > 0) {
+        embed.setDescription(
+            `${this.formatRarityRank(nft.rarity.rank, nft.rarity.total)} • **Score:** ${nft.rarity.score.toFixed(1)}`
+        );
+
+        // Rarest traits first, Discord allows 25 fields
+        nft.rarity.traits.slice(0, 24).forEach((trait) => {
             embed.addFields({
-                name: "📊 Collection Stats",
-                value: stats.join(" • "),
-                inline: false,
+                name: this.truncateText(trait.trait_type, this.limits.fieldName),
+                value: `${this.truncateText(String(trait.value), 100)}\n${trait.percentage.toFixed(
+                    2
+                )}% (${trait.count.toLocaleString()})`,
+                inline: true,
             });
-        }
+        });
 
-        // Artist/Creator information
-        if (collection.verifiedCreators && collection.verifiedCreators.length > 0) {
-            const artistList = collection.verifiedCreators
-                .slice(0, 3) // Limit to 3 artists for brevity
-                .map((address) => this.formatAddress(address))
-                .join(", ");
+        const iconUrl = this.getMarketplaceIcon(nft.marketplace.name);
+        embed.setFooter({
+            text: `${
+                nft.collection?.name ? `${this.truncateText(nft.collection.name, 60)} • ` : ""
+            }Rarity • by TheTezosCommunity`,
+            ...(iconUrl && { iconURL: iconUrl }),
+        });
 
-            const artistLabel = collection.verifiedCreators.length === 1 ? "👤 Artist" : "👥 Artists";
-            const artistValue =
-                collection.verifiedCreators.length > 3
-                    ? `${artistList} +${collection.verifiedCreators.length - 3} more`
-                    : artistList;
+        return embed;
+    }
 
-            embed.addFields({
-                name: artistLabel,
-                value: this.truncateText(artistValue, 100),
+    /**
+     * Creates a side-by-side comparison of two tokens. The second embed shares the first one's URL so
+     * Discord shows both images together.
+     */
+    public createComparisonEmbeds(a: TezosNFT, b: TezosNFT): EmbedBuilder[] {
+        const url = this.processMarketplaceUrl(a.marketplace.url, a.marketplace.name);
+        const embed = new EmbedBuilder()
+            .setColor(this.colors.tezos as ColorResolvable)
+            .setTitle(`⚖️ ${this.truncateText(a.name, 90)} vs ${this.truncateText(b.name, 90)}`)
+            .setURL(url)
+            .setTimestamp();
+
+        embed.addFields(
+            {
+                name: `🅰️ ${this.truncateText(a.name, 60)}`,
+                value: this.formatComparisonColumn(a),
                 inline: true,
-            });
+            },
+            {
+                name: `🅱️ ${this.truncateText(b.name, 60)}`,
+                value: this.formatComparisonColumn(b),
+                inline: true,
+            }
+        );
+
+        if (a.imageUrl) {
+            embed.setImage(a.imageUrl);
         }
 
-        // Floor price and volume
-        const financial = [];
-        if (collection.floorPrice !== undefined) {
-            financial.push(`**Floor:** ${collection.floorPrice} ꜩ`);
+        embed.setFooter({
+            text: "Token Comparison • by TheTezosCommunity",
+        });
+
+        const embeds = [embed];
+
+        if (b.imageUrl) {
+            embeds.push(new EmbedBuilder().setURL(url).setImage(b.imageUrl));
         }
-        if (collection.volume24h !== undefined) {
-            financial.push(`**24h Volume:** ${collection.volume24h} ꜩ`);
+
+        return embeds;
+    }
+
+    /**
+     * Creates an embed describing a decoded Tezos operation
+     */
+    public createOperationEmbed(operation: TezosOperation): EmbedBuilder {
+        const applied = operation.status === "applied";
+        const embed = new EmbedBuilder()
+            .setColor((applied ? this.colors.tezos : this.colors.error) as ColorResolvable)
+            .setURL(operation.url);
+
+        if (operation.timestamp) {
+            embed.setTimestamp(new Date(operation.timestamp));
         }
-        if (collection.volumeTotal !== undefined) {
-            financial.push(`**Total Volume:** ${collection.volumeTotal.toLocaleString()} ꜩ`);
+
+        const sender = operation.sender.alias || this.formatAddress(operation.sender.address);
+        const firstToken = operation.tokens[0];
+
+        if (operation.sale) {
+            // Marketplace purchase (fulfill_ask / collect)
+            embed.setTitle(`🛒 Sale on ${operation.sale.marketplace}`);
+
+            const tokenName = firstToken
+                ? `[${this.truncateText(firstToken.name, 60)}](https://objkt.com/tokens/${firstToken.contractAddress}/${
+                      firstToken.tokenId
+                  })`
+                : "a token";
+            const editions = firstToken && firstToken.amount !== "1" ? ` ×${firstToken.amount}` : "";
+            embed.setDescription(`**${sender}** collected ${tokenName}${editions} for **${operation.sale.price} ꜩ**`);
+        } else {
+            embed.setTitle(operation.entrypoint ? `🧾 Contract Call: ${operation.entrypoint}` : "🧾 Tezos Transaction");
         }
 
-        if (financial.length > 0) {
+        if (firstToken?.imageUrl) {
+            embed.setThumbnail(firstToken.imageUrl);
+        }
+
+        embed.addFields({
+            name: "👤 Sender",
+            value: sender,
+            inline: true,
+        });
+
+        if (operation.target) {
+            const target = operation.target.alias || this.formatAddress(operation.target.address);
             embed.addFields({
-                name: "💰 Market Data",
-                value: financial.join(" • "),
-                inline: false,
+                name: "📜 Target",
+                value: operation.entrypoint ? `${target}\n\`${operation.entrypoint}\`` : target,
+                inline: true,
             });
         }
 
-        // Collection type
-        if (collection.collectionType) {
-            const typeDisplay = collection.collectionType.replace("_", " ").toUpperCase();
+        if (operation.tokens.length > 0) {
+            const tokenLines = operation.tokens.slice(0, 5).map((token) => {
+                const from = token.from ? token.from.alias || this.formatAddress(token.from.address) : "mint";
+                const to = token.to ? token.to.alias || this.formatAddress(token.to.address) : "burn";
+                return `• ${token.amount}× **${this.truncateText(token.name, 40)}** (${from} → ${to})`;
+            });
+
+            if (operation.tokens.length > 5) {
+                tokenLines.push(`*+${operation.tokens.length - 5} more*`);
+            }
+
             embed.addFields({
-                name: "🏷️ Collection Type",
-                value: typeDisplay,
-                inline: true,
+                name: "🎨 Tokens Transferred",
+                value: this.truncateText(tokenLines.join("\n"), this.limits.fieldValue),
+                inline: false,
             });
         }
 
-        // Contract address
-        embed.addFields({
-            name: "📜 Contract",
-            value: `\`${collection.contract}\``,
-            inline: true,
-        });
+        embed.addFields(
+            {
+                name: "💰 Amount",
+                value: `${operation.amount} ꜩ`,
+                inline: true,
+            },
+            {
+                name: "⛽ Fee",
+                value: `${operation.fee} ꜩ`,
+                inline: true,
+            },
+            {
+                name: applied ? "✅ Status" : "❌ Status",
+                value: operation.status,
+                inline: true,
+            }
+        );
 
-        // Set footer
-        const iconUrl = this.getMarketplaceIcon(collection.marketplace.name);
         embed.setFooter({
-            text: `${collection.marketplace.name} • Tezos Collection Preview • by TheTezosCommunity`,
-            ...(iconUrl && { iconURL: iconUrl }),
+            text: "TzKT • Tezos Operation Preview • by TheTezosCommunity",
+            iconURL: "https://tzkt.io/favicon.ico",
         });
 
-        // Set URL to marketplace
-        if (collection.marketplace.url) {
-            embed.setURL(this.processMarketplaceUrl(collection.marketplace.url));
+        // Add TTC links as inline fields
+        this.addCommunityLinks(embed);
+
+        return embed;
+    }
+
+    /**
+     * Adds an explicit notice for tokens and projects that are not on Tezos L1
+     */
+    private addChainNotice(embed: EmbedBuilder, chain: Chain | undefined): void {
+        if (!chain || chain === "tezos") {
+            return;
         }
 
-        // Add TTC links as inline fields
+        if (chain === "etherlink") {
+            embed.addFields({
+                name: "⛓️ Etherlink",
+                value: "This lives on **Etherlink**, the Tezos EVM layer 2.",
+                inline: false,
+            });
+            return;
+        }
+
+        embed.addFields({
+            name: "⛓️ Not a Tezos token",
+            value: `This lives on **${CHAIN_NAMES[chain]}**. Prices and stats are shown in its native currency where available.`,
+            inline: false,
+        });
+    }
+
+    /**
+     * Adds TheTezosCommunity links as inline fields
+     */
+    private addCommunityLinks(embed: EmbedBuilder): void {
         embed.addFields(
             {
                 name: "\u200b", // Invisible character
@@ -260,8 +1204,6 @@ export class EmbedGeneratorService {
                 inline: true,
             }
         );
-
-        return embed;
     }
 
     /**
@@ -269,7 +1211,7 @@ export class EmbedGeneratorService {
      */
     private addNFTFields(embed: EmbedBuilder, nft: TezosNFT): void {
         // Creator
-        if (nft.creator.alias || nft.creator.address) {
+        if (nft.creator.alias || (nft.creator.address && nft.creator.address !== "Unknown")) {
             const creatorInfo = this.formatCreatorInfo(nft.creator);
             embed.addFields({
                 name: "👤 Creator",
@@ -339,8 +1281,39 @@ export class EmbedGeneratorService {
             }
         }
 
-        // Edition info (not for Open Editions)
-        if (nft.edition && nft.saleType !== "open_edition") {
+        // Auction bid and end, Discord renders the end in the reader's timezone
+        if (nft.auctionInfo && (nft.saleType === "english_auction" || nft.saleType === "dutch_auction")) {
+            const auctionDetails = [];
+
+            if (nft.auctionInfo.highestBid !== undefined) {
+                auctionDetails.push(`**Highest Bid:** ${nft.auctionInfo.highestBid} ${nft.price?.symbol || "ꜩ"}`);
+            }
+
+            if (nft.auctionInfo.endTime) {
+                const endTime = Math.floor(new Date(nft.auctionInfo.endTime).getTime() / 1000);
+                auctionDetails.push(endTime * 1000 > Date.now() ? `**Ends:** <t:${endTime}:R>` : `**Status:** Ended`);
+            }
+
+            if (auctionDetails.length > 0) {
+                embed.addFields({
+                    name: "⏰ Auction",
+                    value: auctionDetails.join("\n"),
+                    inline: true,
+                });
+            }
+        }
+
+        // Iteration of a generative token (e.g. fx(hash) gentks)
+        if (nft.iteration !== undefined) {
+            embed.addFields({
+                name: "🧬 Iteration",
+                value: nft.edition ? `#${nft.iteration} / ${nft.edition.total}` : `#${nft.iteration}`,
+                inline: true,
+            });
+        }
+
+        // Edition info (not for Open Editions or generative iterations)
+        if (nft.edition && nft.saleType !== "open_edition" && nft.iteration === undefined) {
             let editionLabel = "🔢 Edition";
             if (nft.saleType === "listing") {
                 editionLabel = "🔢 Available";
@@ -360,8 +1333,26 @@ export class EmbedGeneratorService {
             inline: true,
         });
 
+        // Rarity within the collection, with the rarest traits and how common they are
+        if (nft.rarity) {
+            embed.addFields({
+                name: "💎 Rarity",
+                value: `${this.formatRarityRank(nft.rarity.rank, nft.rarity.total)}\n${nft.rarity.traits
+                    .slice(0, 2)
+                    .map(
+                        (trait) =>
+                            `**${this.truncateText(trait.trait_type, 20)}:** ${this.truncateText(
+                                String(trait.value),
+                                15
+                            )} (${trait.percentage.toFixed(1)}%)`
+                    )
+                    .join("\n")}`,
+                inline: false,
+            });
+        }
+
         // Attributes (limit to 2 for brevity)
-        if (nft.attributes && nft.attributes.length > 0) {
+        if (!nft.rarity && nft.attributes && nft.attributes.length > 0) {
             const attributesToShow = nft.attributes.slice(0, 2);
             const attributeText = attributesToShow
                 .map((attr) => {
@@ -447,6 +1438,54 @@ export class EmbedGeneratorService {
         return `${address.slice(0, 6)}...${address.slice(-4)}`;
     }
 
+    /**
+     * Formats one token's column of a comparison: price, editions, floor, owners, creator and rarity
+     */
+    private formatComparisonColumn(nft: TezosNFT): string {
+        const lines = [
+            `**Price:** ${
+                nft.price ? `${nft.price.amount} ${nft.price.symbol || nft.price.currency}` : "Not for sale"
+            }`,
+        ];
+
+        if (nft.edition) {
+            lines.push(`**Editions:** ${nft.edition.total.toLocaleString()}`);
+        }
+        if (nft.collection?.floorPrice !== undefined) {
+            lines.push(`**Floor:** ${nft.collection.floorPrice} ꜩ`);
+        }
+        if (nft.collection?.owners !== undefined) {
+            lines.push(`**Owners:** ${nft.collection.owners.toLocaleString()}`);
+        }
+
+        const creator =
+            nft.creator.alias || (nft.creator.address !== "Unknown" ? this.formatAddress(nft.creator.address) : "");
+        if (creator) {
+            lines.push(`**Creator:** ${this.truncateText(creator, 40)}`);
+        }
+
+        if (nft.rarity) {
+            lines.push(`**Rarity:** ${this.formatRarityRank(nft.rarity.rank, nft.rarity.total)}`);
+        }
+
+        lines.push(
+            `[View on ${nft.marketplace.name}](${this.processMarketplaceUrl(
+                nft.marketplace.url,
+                nft.marketplace.name
+            )})`
+        );
+
+        return this.truncateText(lines.join("\n"), this.limits.fieldValue);
+    }
+
+    /**
+     * Formats a rarity rank, e.g. "**#12** / 1,000 (top 1.2%)"
+     */
+    private formatRarityRank(rank: number, total: number): string {
+        const top = Math.max((rank / total) * 100, 0.1).toFixed(1);
+        return `**#${rank.toLocaleString()}** / ${total.toLocaleString()} (top ${top}%)`;
+    }
+
     /**
      * Formats creator information with Discord and social links
      */
@@ -455,6 +1494,7 @@ export class EmbedGeneratorService {
         alias?: string | undefined;
         discord?: string | undefined;
         twitter?: string | undefined;
+        instagram?: string | undefined;
         website?: string | undefined;
         description?: string | undefined;
     }): string {
@@ -469,19 +1509,15 @@ export class EmbedGeneratorService {
 
         // Add social links
         if (creator.twitter) {
-            // Handle both full URLs and usernames
-            let twitterHandle: string;
-            if (creator.twitter.includes("twitter.com/") || creator.twitter.includes("x.com/")) {
-                // Extract username from URL
-                const match = creator.twitter.match(/(?:twitter\.com\/|x\.com\/)([^\/\?]+)/);
-                twitterHandle = match?.[1] || creator.twitter;
-            } else {
-                // Remove @ if present
-                twitterHandle = creator.twitter.replace(/^@/, "");
-            }
+            const twitterHandle = this.extractTwitterHandle(creator.twitter);
             links.push(`🐦 [@${twitterHandle}](https://twitter.com/${twitterHandle})`);
         }
 
+        if (creator.instagram) {
+            const instagramHandle = creator.instagram.replace(/^@/, "").replace(/^.*instagram\.com\//, "");
+            links.push(`📷 [@${instagramHandle}](https://instagram.com/${instagramHandle})`);
+        }
+
         if (creator.website) {
             const websiteUrl = creator.website.startsWith("http") ? creator.website : `https://${creator.website}`;
             links.push(`🌐 [Website](${websiteUrl})`);
@@ -495,22 +1531,38 @@ export class EmbedGeneratorService {
         return name;
     }
 
+    /**
+     * Extracts a Twitter/X handle from either a full URL or a username
+     */
+    private extractTwitterHandle(twitter: string): string {
+        if (twitter.includes("twitter.com/") || twitter.includes("x.com/")) {
+            // Extract username from URL
+            const match = twitter.match(/(?:twitter\.com\/|x\.com\/)([^\/\?]+)/);
+            return match?.[1] || twitter;
+        }
+
+        // Remove @ if present
+        return twitter.replace(/^@/, "");
+    }
+
     /**
      * Processes marketplace URLs to add referral parameters
      */
-    private processMarketplaceUrl(url: string): string {
-        if (!config.referral.address) {
+    private processMarketplaceUrl(url: string, marketplace: string): string {
+        const referralParam = getMarketplaceAdapter(marketplace)?.referralParam;
+
+        if (!config.referral.address || !referralParam) {
             return url;
         }
 
         try {
             const urlObj = new URL(url);
 
-            // Remove any existing ref parameter
-            urlObj.searchParams.delete("ref");
+            // Remove any existing referral parameter
+            urlObj.searchParams.delete(referralParam);
 
             // Add our referral address
-            urlObj.searchParams.set("ref", config.referral.address);
+            urlObj.searchParams.set(referralParam, config.referral.address);
 
             return urlObj.toString();
         } catch (error) {
@@ -556,16 +1608,7 @@ export class EmbedGeneratorService {
      * Gets marketplace icon URL
      */
     private getMarketplaceIcon(marketplace: string): string {
-        const icons: Record<string, string> = {
-            OBJKT: "https://objkt.com/favicon.ico",
-            fxhash: "https://www.fxhash.xyz/favicon.ico",
-            Teia: "https://teia.art/favicon.ico",
-            Versum: "https://versum.xyz/favicon.ico",
-            EditArt: "https://www.editart.xyz/favicon.ico",
-            Bootloader: "https://bootloader.art/favicon.ico",
-        };
-
-        return icons[marketplace] || "";
+        return getMarketplaceAdapter(marketplace)?.icon || "";
     }
 
     /**
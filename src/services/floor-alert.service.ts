@@ -0,0 +1,249 @@
+import type { Client, EmbedBuilder } from "discord.js";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { JsonStore } from "../utils/json-store";
+import { ObjktApiService } from "./objkt-api.service";
+import type { EmbedGeneratorService } from "./embed-generator.service";
+import type { ApiResponse, FloorAlert } from "../types";
+
+interface FloorAlertState {
+    alerts: FloorAlert[];
+    nextId: number;
+}
+
+const MAX_ALERTS_PER_USER = 10;
+
+// A fired alert re-arms once the floor is this fraction past the threshold in the other direction,
+// so a floor oscillating around the threshold doesn't alert on every check
+const REARM_MARGIN = 0.05;
+
+/**
+ * Notifies users when a collection's floor price crosses their threshold
+ */
+export class FloorAlertService {
+    private readonly client: Client;
+    private readonly embedService: EmbedGeneratorService;
+    private readonly objktApi: ObjktApiService;
+    private readonly store = new JsonStore<FloorAlertState>("floor-alerts.json", { alerts: [], nextId: 1 });
+    private readonly state: FloorAlertState;
+    private pollTimer: ReturnType<typeof setInterval> | undefined;
+    private polling = false;
+
+    constructor(client: Client, embedService: EmbedGeneratorService) {
+        this.client = client;
+        this.embedService = embedService;
+        this.objktApi = new ObjktApiService();
+        this.state = this.store.load();
+    }
+
+    /**
+     * Starts checking floor prices
+     */
+    public start(): void {
+        if (this.pollTimer) {
+            return;
+        }
+
+        this.pollTimer = setInterval(() => void this.poll(), config.floorAlerts.pollInterval * 1000);
+        logger.info(
+            `🔔 Floor alerts checking every ${config.floorAlerts.pollInterval}s (${this.state.alerts.length} alert(s))`
+        );
+    }
+
+    /**
+     * Stops checking floor prices
+     */
+    public stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    /**
+     * Returns a user's alerts
+     */
+    public getAlerts(userId: string): FloorAlert[] {
+        return this.state.alerts.filter((alert) => alert.userId === userId);
+    }
+
+    /**
+     * Creates an alert. When the floor is already past the threshold the alert waits for the next crossing.
+     * @returns The alert and the current floor price in tez
+     */
+    public async createAlert(
+        input: Omit<FloorAlert, "id" | "armed" | "lastTriggeredAt" | "createdAt">
+    ): Promise<ApiResponse<{ alert: FloorAlert; floor?: number | undefined }>> {
+        if (this.getAlerts(input.userId).length >= MAX_ALERTS_PER_USER) {
+            return {
+                success: false,
+                error: `You already have ${MAX_ALERTS_PER_USER} alerts, remove one first.`,
+            };
+        }
+
+        const floorResult = await this.getFloor(input.contract);
+        if (!floorResult.success) {
+            return {
+                success: false,
+                error: floorResult.error || "Failed to fetch the collection floor",
+            };
+        }
+
+        const alert: FloorAlert = {
+            ...input,
+            id: this.state.nextId++,
+            armed: !this.isTriggered(input.direction, input.threshold, floorResult.data),
+            createdAt: new Date().toISOString(),
+        };
+
+        this.state.alerts.push(alert);
+        await this.store.save(this.state);
+
+        logger.info(`🔔 Alert #${alert.id}: ${alert.contract} ${alert.direction} ${alert.threshold} ꜩ`);
+        return { success: true, data: { alert, floor: floorResult.data } };
+    }
+
+    /**
+     * Removes one of a user's alerts
+     * @returns The removed alert, undefined when the user has no alert with this ID
+     */
+    public async removeAlert(userId: string, id: number): Promise<FloorAlert | undefined> {
+        const alert = this.state.alerts.find((entry) => entry.userId === userId && entry.id === id);
+        if (!alert) {
+            return undefined;
+        }
+
+        this.state.alerts = this.state.alerts.filter((entry) => entry !== alert);
+        await this.store.save(this.state);
+
+        logger.info(`🔔 Removed alert #${alert.id}`);
+        return alert;
+    }
+
+    /**
+     * Checks the floor of every collection with alerts
+     */
+    private async poll(): Promise<void> {
+        if (this.polling) {
+            return;
+        }
+
+        this.polling = true;
+        try {
+            const contracts = new Set(this.state.alerts.map((alert) => alert.contract));
+
+            for (const contract of contracts) {
+                try {
+                    await this.checkCollection(contract);
+                } catch (error) {
+                    logger.error(`Failed to check floor alerts for ${contract}:`, error);
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Fires armed alerts whose threshold the floor crossed and re-arms fired alerts the floor moved away from
+     */
+    private async checkCollection(contract: string): Promise<void> {
+        const floorResult = await this.getFloor(contract);
+
+        if (!floorResult.success) {
+            logger.warn(`Failed to fetch floor of ${contract}: ${floorResult.error}`);
+            return;
+        }
+
+        const floor = floorResult.data;
+        if (floor === undefined) {
+            // Nothing is listed, there is no floor to compare
+            return;
+        }
+
+        let changed = false;
+
+        for (const alert of this.state.alerts.filter((entry) => entry.contract === contract)) {
+            if (alert.armed && this.isTriggered(alert.direction, alert.threshold, floor)) {
+                alert.armed = false;
+                alert.lastTriggeredAt = new Date().toISOString();
+                changed = true;
+
+                await this.notify(alert, this.embedService.createFloorAlertEmbed(alert, floor));
+            } else if (!alert.armed && this.isRearmed(alert, floor)) {
+                alert.armed = true;
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            await this.store.save(this.state);
+        }
+    }
+
+    /**
+     * Whether the floor is past an alert's threshold
+     */
+    private isTriggered(direction: FloorAlert["direction"], threshold: number, floor: number | undefined): boolean {
+        if (floor === undefined) {
+            return false;
+        }
+
+        return direction === "below" ? floor < threshold : floor > threshold;
+    }
+
+    /**
+     * Whether the floor moved far enough back from a fired alert's threshold to alert again
+     */
+    private isRearmed(alert: FloorAlert, floor: number): boolean {
+        return alert.direction === "below"
+            ? floor >= alert.threshold * (1 + REARM_MARGIN)
+            : floor <= alert.threshold * (1 - REARM_MARGIN);
+    }
+
+    /**
+     * Gets a collection's floor price in tez, undefined when nothing is listed
+     */
+    private async getFloor(contract: string): Promise<ApiResponse<number | undefined>> {
+        const result = await this.objktApi.getCollectionInfo(contract);
+
+        if (!result.success || !result.data) {
+            return {
+                success: false,
+                error: result.error || "Failed to fetch collection info",
+            };
+        }
+
+        const data = result.data as { floor_price?: number | null };
+        return { success: true, data: data.floor_price ? data.floor_price / 1000000 : undefined };
+    }
+
+    /**
+     * Sends an alert to the user by DM, or mentions them in the alert's channel
+     */
+    private async notify(alert: FloorAlert, embed: EmbedBuilder): Promise<void> {
+        try {
+            if (alert.notify === "channel" && alert.channelId) {
+                const channel = await this.client.channels.fetch(alert.channelId);
+
+                if (!channel?.isSendable()) {
+                    logger.warn(`Alert channel ${alert.channelId} is unavailable, skipping alert #${alert.id}`);
+                    return;
+                }
+
+                await channel.send({
+                    content: `<@${alert.userId}>`,
+                    embeds: [embed],
+                    allowedMentions: { users: [alert.userId] },
+                });
+                return;
+            }
+
+            const user = await this.client.users.fetch(alert.userId);
+            await user.send({ embeds: [embed] });
+        } catch (error) {
+            // Usually the user doesn't accept DMs from server members
+            logger.warn(`Failed to send alert #${alert.id} to ${alert.userId}:`, error);
+        }
+    }
+}
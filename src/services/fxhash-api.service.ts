@@ -0,0 +1,304 @@
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import type { ApiResponse, FxHashGentk, FxHashGenerativeToken } from "../types";
+
+const GENERATIVE_TOKEN_FIELDS = `
+    id
+    name
+    slug
+    chain
+    supply
+    balance
+    originalSupply
+    iterationsCount
+    thumbnailUri
+    displayUri
+    createdAt
+    metadata
+    author {
+        id
+        name
+        avatarUri
+    }
+    pricingFixed {
+        price
+        opensAt
+    }
+    pricingDutchAuction {
+        levels
+        restingPrice
+        opensAt
+    }
+    marketStats {
+        floor
+        secVolumeTz
+        secVolumeTz24
+        listed
+    }
+`;
+
+export class FxHashApiService {
+    private readonly apiUrl: string;
+    private readonly rateLimit: Map<string, number> = new Map();
+
+    constructor() {
+        this.apiUrl = config.api.fxhashApiUrl;
+    }
+
+    /**
+     * Checks rate limiting for API calls
+     */
+    private checkRateLimit(endpoint: string): boolean {
+        const now = Date.now();
+        const lastCall = this.rateLimit.get(endpoint) || 0;
+        const minInterval = 60000 / config.api.rateLimit;
+
+        if (now - lastCall < minInterval) {
+            return false;
+        }
+
+        this.rateLimit.set(endpoint, now);
+        return true;
+    }
+
+    /**
+     * Makes a GraphQL request to the fx(hash) API
+     */
+    private async makeGraphQLRequest(query: string, variables: Record<string, unknown>): Promise<unknown> {
+        const response = await fetch(this.apiUrl, {
+            method: "POST",
+            headers: {
+                "User-Agent": "Discord-Tezos-Previews-Bot/1.0.0",
+                "Content-Type": "application/json",
+                Accept: "application/json",
+            },
+            body: JSON.stringify({ query, variables }),
+            signal: AbortSignal.timeout(10000),
+        });
+
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Normalizes a gentk reference to an fx(hash) objkt id. Plain numbers are gentk v0 tokens.
+     * Returns undefined for references that are slugs rather than ids.
+     */
+    public toGentkId(id: string): string | undefined {
+        if (/^\d+$/.test(id)) {
+            return `FX0-${id}`;
+        }
+
+        if (/^FX\d+-\d+$/i.test(id)) {
+            return id.toUpperCase();
+        }
+
+        // EVM iterations are <contract>-<token id>
+        if (/^0x[0-9a-f]{40}-\d+$/i.test(id)) {
+            return id.toLowerCase();
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Gets a gentk (a minted iteration) by id or slug with its features, listing and generative token
+     */
+    public async getGentk(idOrSlug: string): Promise<ApiResponse<FxHashGentk>> {
+        const gentkId = this.toGentkId(idOrSlug);
+        const endpoint = `gentk/${gentkId || idOrSlug}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching gentk from fx(hash): ${gentkId || idOrSlug}`);
+
+            const query = `
+                query GetGentk($id: ObjktId, $slug: String) {
+                    objkt(id: $id, slug: $slug) {
+                        id
+                        name
+                        slug
+                        iteration
+                        version
+                        rarity
+                        displayUri
+                        thumbnailUri
+                        metadata
+                        features
+                        owner {
+                            id
+                            name
+                            avatarUri
+                        }
+                        activeListing {
+                            price
+                        }
+                        issuer {
+                            ${GENERATIVE_TOKEN_FIELDS}
+                        }
+                    }
+                }
+            `;
+
+            const variables = gentkId ? { id: gentkId } : { slug: idOrSlug };
+
+            const data = (await this.makeGraphQLRequest(query, variables)) as {
+                data?: { objkt?: FxHashGentk | null };
+            };
+
+            if (!data.data?.objkt) {
+                return {
+                    success: false,
+                    error: "Gentk not found",
+                };
+            }
+
+            return {
+                success: true,
+                data: data.data.objkt,
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `fx(hash) API error: ${error.message}`
+                    : "Unknown error occurred while fetching gentk";
+
+            logger.error("Failed to fetch gentk from fx(hash):", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * Gets a generative token (project) by numeric id or slug
+     */
+    public async getGenerativeToken(idOrSlug: string): Promise<ApiResponse<FxHashGenerativeToken>> {
+        const endpoint = `generative/${idOrSlug}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching generative token from fx(hash): ${idOrSlug}`);
+
+            const query = `
+                query GetGenerativeToken($id: Float, $slug: String) {
+                    generativeToken(id: $id, slug: $slug) {
+                        ${GENERATIVE_TOKEN_FIELDS}
+                        objkts(take: 1) {
+                            id
+                            version
+                        }
+                    }
+                }
+            `;
+
+            const variables = /^\d+$/.test(idOrSlug) ? { id: Number(idOrSlug) } : { slug: idOrSlug };
+
+            const data = (await this.makeGraphQLRequest(query, variables)) as {
+                data?: { generativeToken?: FxHashGenerativeToken | null };
+            };
+
+            if (!data.data?.generativeToken) {
+                return {
+                    success: false,
+                    error: "Generative token not found",
+                };
+            }
+
+            return {
+                success: true,
+                data: data.data.generativeToken,
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `fx(hash) API error: ${error.message}`
+                    : "Unknown error occurred while fetching generative token";
+
+            logger.error("Failed to fetch generative token from fx(hash):", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * Gets the features of every iteration of a generative token, used to compute rarity
+     * @param limit Maximum number of iterations to fetch
+     */
+    public async getProjectFeatures(
+        projectId: string,
+        limit = 10000
+    ): Promise<ApiResponse<Array<Pick<FxHashGentk, "id" | "features">>>> {
+        const endpoint = `generative/${projectId}/features`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching iteration features for fx(hash) project ${projectId}`);
+
+            const query = `
+                query GetProjectFeatures($id: Float!, $take: Int!) {
+                    generativeToken(id: $id) {
+                        objkts(take: $take) {
+                            id
+                            features
+                        }
+                    }
+                }
+            `;
+
+            const data = (await this.makeGraphQLRequest(query, { id: Number(projectId), take: limit })) as {
+                data?: { generativeToken?: { objkts?: Array<Pick<FxHashGentk, "id" | "features">> } | null };
+            };
+
+            if (!data.data?.generativeToken) {
+                return {
+                    success: false,
+                    error: "Generative token not found",
+                };
+            }
+
+            return {
+                success: true,
+                data: data.data.generativeToken.objkts || [],
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `fx(hash) API error: ${error.message}`
+                    : "Unknown error occurred while fetching project features";
+
+            logger.error("Failed to fetch project features from fx(hash):", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { NFTDetectionService } from "./nft-detection.service";
+
+const CONTRACT = "KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton";
+
+describe("NFTDetectionService", () => {
+    const detection = new NFTDetectionService();
+
+    test("detects token links in message order, de-duplicated by token identity", () => {
+        const matches = detection.detectNFTLinks(
+            `https://teia.art/objkt/1 https://objkt.com/tokens/${CONTRACT}/2 https://objkt.com/tokens/hicetnunc/1`
+        );
+
+        expect(matches.map((match) => [match.marketplaceKey, match.tokenId])).toEqual([
+            ["teia", "1"],
+            ["objkt", "2"],
+        ]);
+    });
+
+    test("treats Object.prototype names in URL paths as plain paths", () => {
+        expect(() => detection.detectNFTLinks("https://objkt.com/asset/constructor/1")).not.toThrow();
+        expect(detection.detectNFTLinks("https://objkt.com/asset/constructor/1")).toHaveLength(1);
+
+        expect(() => detection.detectCollectionLinks("https://objkt.com/collections/toString")).not.toThrow();
+        expect(detection.detectCollectionLinks("https://objkt.com/collections/toString")).toHaveLength(1);
+    });
+
+    test("detects bare addresses and .tez domains but not ones inside other links' query strings", () => {
+        const address = "tz1burnburnburnburnburnburnburjAYjjX";
+        const content = `https://objkt.com/tokens/${CONTRACT}/1?ref=${address} https://objkt.com/tokens/${CONTRACT}/2?a=1&by=alice.tez`;
+
+        expect(detection.detectProfileLinks(content)).toEqual([]);
+        expect(detection.detectProfileLinks(`${address} and alice.tez`)).toEqual([
+            { address, url: address },
+            { domain: "alice.tez", url: "alice.tez" },
+        ]);
+    });
+});
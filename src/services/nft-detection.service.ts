@@ -1,125 +1,76 @@
-import type { MarketplaceMatch, CollectionMatch } from "../types";
-
-// Regular expressions for different Tezos marketplace URLs
-const MARKETPLACE_PATTERNS = {
-    objkt: {
-        name: "OBJKT",
-        patterns: [
-            /(?:https?:\/\/)?(?:www\.)?objkt\.com\/asset\/([^\/\?]+)\/(\d+)(?:\?[^\s]*)?/i,
-            /(?:https?:\/\/)?(?:www\.)?objkt\.com\/tokens\/([^\/\?]+)\/(\d+)(?:\?[^\s]*)?/i,
-            /(?:https?:\/\/)?(?:www\.)?objkt\.com\/objkt\/(\d+)(?:\?[^\s]*)?/i, // Simple objkt.com/objkt/ID format
-        ],
-    },
-    fxhash: {
-        name: "fxhash",
-        patterns: [/(?:https?:\/\/)?(?:www\.)?fxhash\.xyz\/gentk\/(\d+)(?:\?[^\s]*)?/i],
-    },
-    teia: {
-        name: "Teia",
-        patterns: [/(?:https?:\/\/)?(?:www\.)?teia\.art\/objkt\/(\d+)(?:\?[^\s]*)?/i],
-    },
-    versum: {
-        name: "Versum",
-        patterns: [/(?:https?:\/\/)?(?:www\.)?versum\.xyz\/token\/([^\/\?]+)\/(\d+)(?:\?[^\s]*)?/i],
-    },
-    bootloader: {
-        name: "Bootloader",
-        patterns: [/(?:https?:\/\/)?(?:www\.)?bootloader\.art\/token\/(\d+)(?:\?[^\s]*)?/i],
-    },
-    editart: {
-        name: "EditArt",
-        patterns: [/(?:https?:\/\/)?(?:www\.)?editart\.xyz\/token-detail\/(KT1[a-zA-Z0-9]{33})\/(\d+)(?:\?[^\s]*)?/i],
-    },
-} as const;
+import { config } from "../config";
+import { MARKETPLACE_CONTRACTS, getMarketplaceAdapters } from "../marketplaces";
+import { stripIgnoredRegions } from "../utils/discord-markdown";
+import type {
+    MarketplaceAdapter,
+    MarketplaceMatch,
+    CollectionMatch,
+    ProfileMatch,
+    OperationMatch,
+    IgnoredContext,
+} from "../types";
+
+interface PatternHit<T> {
+    source: T;
+    match: RegExpMatchArray;
+    start: number;
+    end: number;
+}
 
-// Collection URL patterns
-const COLLECTION_PATTERNS = {
-    objkt: {
-        name: "OBJKT",
-        patterns: [
-            /(?:https?:\/\/)?(?:www\.)?objkt\.com\/collections\/([^\/\?]+)\/projects\/(\d+)(?:\?[^\s]*)?/i, // objkt.com/collections/path/projects/id (more specific first)
-            /(?:https?:\/\/)?(?:www\.)?objkt\.com\/collections\/([^\/\?]+)(?!\/projects\/)(?:\?[^\s]*)?/i, // objkt.com/collections/contract (exclude /projects/)
-        ],
-    },
-    fxhash: {
-        name: "fxhash",
-        patterns: [
-            /(?:https?:\/\/)?(?:www\.)?fxhash\.xyz\/generative\/(\d+)(?:\?[^\s]*)?/i, // fxhash.xyz/generative/id
-            /(?:https?:\/\/)?(?:www\.)?fxhash\.xyz\/project\/([^\/\?]+)(?:\?[^\s]*)?/i, // fxhash.xyz/project/slug
-        ],
-    },
-    bootloader: {
-        name: "Bootloader",
-        patterns: [
-            /(?:https?:\/\/)?(?:www\.)?bootloader\.art\/generator\/(\d+)(?:\?[^\s]*)?/i, // bootloader.art/generator/id
-        ],
-    },
-    editart: {
-        name: "EditArt",
-        patterns: [
-            /(?:https?:\/\/)?(?:www\.)?editart\.xyz\/series\/(KT1[a-zA-Z0-9]{33})(?:\/[^\s]*)?/i, // editart.xyz/series/contract
-        ],
-    },
+// Profile references: objkt.com profile URLs, bare tz1/tz2/tz3 addresses and .tez domains
+const PROFILE_PATTERNS = {
+    objkt: /(?:https?:\/\/)?(?:www\.)?objkt\.com\/profile\/([^/?#\s]+)[^\s]*/i,
+    address: /(?<![\w/.:=?&-])(tz[123][1-9A-HJ-NP-Za-km-z]{33})\b/,
+    domain: /(?<![\w/.@=?&-])((?:[a-z0-9-]+\.)*[a-z0-9-]+\.tez)(?![\w.-])/i,
 } as const;
 
+// Operation hashes, bare or as tzkt.io/<hash> links
+const OPERATION_PATTERNS = [
+    /(?:https?:\/\/)?(?:www\.)?tzkt\.io\/(o[1-9A-HJ-NP-Za-km-z]{50})(?![1-9A-HJ-NP-Za-km-z])[^\s]*/i,
+    /(?<![\w/.:-])(o[1-9A-HJ-NP-Za-km-z]{50})(?![1-9A-HJ-NP-Za-km-z])/,
+];
+
+const TEZOS_ADDRESS_PATTERN = /^tz[123][1-9A-HJ-NP-Za-km-z]{33}$/;
+
 export class NFTDetectionService {
     /**
      * Scans a message for Tezos marketplace URLs
      * @param content The message content to scan
-     * @returns Array of detected marketplace matches
+     * @param ignoredContexts Markdown contexts (code, spoilers, quotes, suppressed URLs) to skip
+     * @returns Detected marketplace matches, de-duplicated and in message order
      */
-    public detectNFTLinks(content: string): MarketplaceMatch[] {
+    public detectNFTLinks(
+        content: string,
+        ignoredContexts: readonly IgnoredContext[] = config.detection.ignoredContexts
+    ): MarketplaceMatch[] {
         const matches: MarketplaceMatch[] = [];
+        const seen = new Set<string>();
+        const visibleContent = stripIgnoredRegions(content, ignoredContexts);
 
-        for (const [marketplaceKey, marketplace] of Object.entries(MARKETPLACE_PATTERNS)) {
-            for (const pattern of marketplace.patterns) {
-                const match = content.match(pattern);
-
-                if (match) {
-                    let tokenId = "";
-                    let contractAddress: string | undefined;
-
-                    switch (marketplaceKey) {
-                        case "objkt":
-                            if (match.length >= 3 && match[2]) {
-                                // Pattern: objkt.com/asset/CONTRACT/ID or objkt.com/tokens/CONTRACT/ID
-                                contractAddress = match[1];
-                                tokenId = match[2] || "";
-                            } else if (match.length >= 2 && match[1]) {
-                                // Pattern: objkt.com/objkt/ID
-                                tokenId = match[1] || "";
-                            }
-                            break;
-                        case "fxhash":
-                            tokenId = match[1] || "";
-                            break;
-                        case "teia":
-                            tokenId = match[1] || "";
-                            break;
-                        case "versum":
-                            contractAddress = match[1];
-                            tokenId = match[2] || "";
-                            break;
-                        case "bootloader":
-                            tokenId = match[1] || "";
-                            break;
-                        case "editart":
-                            contractAddress = match[1] || "";
-                            tokenId = match[2] || "";
-                            break;
-                        default:
-                            continue;
-                    }
-                    if (tokenId) {
-                        matches.push({
-                            marketplace: marketplace.name,
-                            tokenId,
-                            contractAddress,
-                            url: match[0] || "",
-                        });
-                    }
-                }
+        for (const { source: adapter, match } of this.findPatternHits(
+            visibleContent,
+            getMarketplaceAdapters().map((adapter) => ({ source: adapter, patterns: adapter.tokenPatterns }))
+        )) {
+            const identity = adapter.toTokenIdentity(match);
+
+            if (!identity?.tokenId) {
+                continue;
+            }
+
+            const key = `${this.canonicalContract(identity.contractAddress, adapter)}:${identity.tokenId}`;
+            if (seen.has(key)) {
+                continue;
             }
+            seen.add(key);
+
+            matches.push({
+                marketplace: adapter.name,
+                marketplaceKey: adapter.key,
+                tokenId: identity.tokenId,
+                contractAddress: identity.contractAddress,
+                chain: identity.chain,
+                url: identity.url || match[0] || "",
+            });
         }
 
         return matches;
@@ -127,42 +78,172 @@ export class NFTDetectionService {
 
     /**
      * Detects collection URLs in message content
+     * @param ignoredContexts Markdown contexts (code, spoilers, quotes, suppressed URLs) to skip
+     * @returns Detected collection matches, de-duplicated and in message order
      */
-    public detectCollectionLinks(content: string): CollectionMatch[] {
+    public detectCollectionLinks(
+        content: string,
+        ignoredContexts: readonly IgnoredContext[] = config.detection.ignoredContexts
+    ): CollectionMatch[] {
         const matches: CollectionMatch[] = [];
+        const seen = new Set<string>();
+        const visibleContent = stripIgnoredRegions(content, ignoredContexts);
 
-        for (const [marketplace, config] of Object.entries(COLLECTION_PATTERNS)) {
-            for (const pattern of config.patterns) {
-                const match = content.match(pattern);
-                if (match) {
-                    const url = match[0];
-                    let contractAddress: string | undefined;
-                    let projectId: string | undefined;
-
-                    if (marketplace === "objkt") {
-                        contractAddress = match[1];
-                        projectId = match[2]; // For collections/path/projects/id format
-                    } else if (marketplace === "fxhash") {
-                        projectId = match[1];
-                    } else if (marketplace === "bootloader") {
-                        projectId = match[1]; // Bootloader generator URLs have project ID
-                    } else if (marketplace === "editart") {
-                        contractAddress = match[1]; // EditArt URLs have contract address directly
-                    }
-
-                    matches.push({
-                        marketplace: config.name,
-                        contractAddress,
-                        projectId,
-                        url,
-                    });
-                }
+        for (const { source: adapter, match } of this.findPatternHits(
+            visibleContent,
+            getMarketplaceAdapters().map((adapter) => ({ source: adapter, patterns: adapter.collectionPatterns || [] }))
+        )) {
+            const identity = adapter.toCollectionIdentity?.(match);
+
+            if (!identity) {
+                continue;
+            }
+
+            const contract = identity.contractAddress
+                ? this.canonicalContract(identity.contractAddress, adapter)
+                : adapter.key;
+            const key = `${contract}:${identity.projectId || ""}`;
+            if (seen.has(key)) {
+                continue;
+            }
+            seen.add(key);
+
+            matches.push({
+                marketplace: adapter.name,
+                marketplaceKey: adapter.key,
+                contractAddress: identity.contractAddress,
+                projectId: identity.projectId,
+                url: match[0],
+            });
+        }
+
+        return matches;
+    }
+
+    /**
+     * Detects wallet addresses, objkt.com profile URLs and .tez domains in message content
+     * @param ignoredContexts Markdown contexts (code, spoilers, quotes, suppressed URLs) to skip
+     * @returns Detected profile matches, de-duplicated and in message order
+     */
+    public detectProfileLinks(
+        content: string,
+        ignoredContexts: readonly IgnoredContext[] = config.detection.ignoredContexts
+    ): ProfileMatch[] {
+        const matches: ProfileMatch[] = [];
+        const seen = new Set<string>();
+        const visibleContent = stripIgnoredRegions(content, ignoredContexts);
+
+        const hits = this.findPatternHits(
+            visibleContent,
+            Object.entries(PROFILE_PATTERNS).map(([kind, pattern]) => ({ source: kind, patterns: [pattern] }))
+        );
+
+        for (const { source: kind, match } of hits) {
+            const value = match[1];
+
+            if (!value) {
+                continue;
+            }
+
+            const key = value.toLowerCase();
+            if (seen.has(key)) {
+                continue;
+            }
+            seen.add(key);
+
+            if (kind === "domain") {
+                matches.push({ domain: key, url: match[0] || value });
+            } else if (TEZOS_ADDRESS_PATTERN.test(value)) {
+                matches.push({ address: value, url: match[0] || value });
+            } else {
+                // objkt.com/profile/<alias>
+                matches.push({ alias: value, url: match[0] || value });
+            }
+        }
+
+        return matches;
+    }
+
+    /**
+     * Detects operation hashes and tzkt.io operation links in message content
+     * @param ignoredContexts Markdown contexts (code, spoilers, quotes, suppressed URLs) to skip
+     * @returns Detected operation matches, de-duplicated and in message order
+     */
+    public detectOperationLinks(
+        content: string,
+        ignoredContexts: readonly IgnoredContext[] = config.detection.ignoredContexts
+    ): OperationMatch[] {
+        const matches: OperationMatch[] = [];
+        const seen = new Set<string>();
+        const visibleContent = stripIgnoredRegions(content, ignoredContexts);
+
+        for (const { match } of this.findPatternHits(visibleContent, [
+            { source: "operation", patterns: OPERATION_PATTERNS },
+        ])) {
+            const hash = match[1];
+
+            if (!hash || seen.has(hash)) {
+                continue;
             }
+            seen.add(hash);
+
+            matches.push({ hash, url: `https://tzkt.io/${hash}` });
         }
 
         return matches;
     }
 
+    /**
+     * Runs every pattern globally over the content and returns the hits in message order.
+     * Where patterns overlap the same text, the earliest and then longest hit wins.
+     */
+    private findPatternHits<T>(
+        content: string,
+        sources: Array<{ source: T; patterns: readonly RegExp[] }>
+    ): Array<PatternHit<T>> {
+        const hits: Array<PatternHit<T>> = [];
+
+        for (const { source, patterns } of sources) {
+            for (const pattern of patterns) {
+                const flags = pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`;
+
+                for (const match of content.matchAll(new RegExp(pattern.source, flags))) {
+                    const start = match.index ?? 0;
+                    hits.push({ source, match, start, end: start + match[0].length });
+                }
+            }
+        }
+
+        hits.sort((a, b) => a.start - b.start || b.end - a.end);
+
+        const accepted: Array<PatternHit<T>> = [];
+        let lastEnd = -1;
+
+        for (const hit of hits) {
+            if (hit.start < lastEnd) {
+                continue;
+            }
+
+            accepted.push(hit);
+            lastEnd = hit.end;
+        }
+
+        return accepted;
+    }
+
+    /**
+     * Normalizes a contract address or marketplace path for identity comparison
+     */
+    private canonicalContract(contractAddress: string | undefined, adapter: MarketplaceAdapter): string {
+        let contract = contractAddress || adapter.fetchStrategy.contractAddress || adapter.key;
+
+        if (Object.hasOwn(MARKETPLACE_CONTRACTS, contract)) {
+            contract = MARKETPLACE_CONTRACTS[contract as keyof typeof MARKETPLACE_CONTRACTS];
+        }
+
+        return contract.toLowerCase();
+    }
+
     /**
      * Checks if a message contains any Tezos marketplace links
      * @param content The message content to check
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { NFTService } from "./nft.service";
+import { ObjktApiService } from "./objkt-api.service";
+
+const EVM_CONTRACT = "0x1234567890abcdef1234567890abcdef12345678";
+
+describe("NFTService", () => {
+    afterEach(() => {
+        (ObjktApiService.prototype.getTokenMetadata as unknown as { mockRestore?: () => void }).mockRestore?.();
+    });
+
+    test("fetches 0x objkt tokens from Etherlink and converts their prices from 18 decimals", async () => {
+        const getTokenMetadata = spyOn(ObjktApiService.prototype, "getTokenMetadata").mockResolvedValue({
+            success: true,
+            data: {
+                name: "Etherlink token",
+                supply: 10,
+                listings_active: [{ price: "2500000000000000000", amount_left: 3 }],
+                fa: {
+                    name: "Etherlink collection",
+                    floor_price: 1500000000000000000,
+                    volume_24h: 4000000000000000000,
+                    volume_total: 12000000000000000000,
+                },
+            },
+        });
+
+        const result = await new NFTService().fetchToken(`https://objkt.com/tokens/${EVM_CONTRACT}/7`);
+
+        expect(getTokenMetadata).toHaveBeenCalledWith(EVM_CONTRACT, "7", "etherlink");
+        expect(result.data?.chain).toBe("etherlink");
+        expect(result.data?.price?.amount).toBe(2.5);
+        expect(result.data?.collection).toMatchObject({ floorPrice: 1.5, volume24h: 4, volumeTotal: 12 });
+    });
+
+    test("tells links to the same token apart from links to different tokens", () => {
+        const nftService = new NFTService();
+
+        expect(nftService.isSameToken("https://teia.art/objkt/1", "https://objkt.com/tokens/hicetnunc/1")).toBe(true);
+        expect(nftService.isSameToken("https://teia.art/objkt/1", "https://teia.art/objkt/2")).toBe(false);
+        expect(nftService.isSameToken("https://teia.art/objkt/1", "not a link")).toBe(false);
+    });
+});
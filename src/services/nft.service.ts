@@ -1,11 +1,70 @@
 import { TzktApiService } from "./tzkt-api.service";
 import { ObjktApiService } from "./objkt-api.service";
+import { FxHashApiService } from "./fxhash-api.service";
 import { NFTDetectionService } from "./nft-detection.service";
+import { RarityService, RARITY_MAX_TOKENS } from "./rarity.service";
+import {
+    MARKETPLACE_CONTRACTS,
+    FXHASH_GENTK_CONTRACTS,
+    MARKETPLACE_TRADING_CONTRACTS,
+    PURCHASE_ENTRYPOINTS,
+    getMarketplaceAdapter,
+    isKTAddress,
+    isTzAddress,
+    isEVMAddress,
+} from "../marketplaces";
 import { logger } from "../utils/logger";
-import type { TezosNFT, TezosCollection, MarketplaceMatch, CollectionMatch, ApiResponse } from "../types";
+import { CHAIN_NAMES, fromSmallestUnit, parseChain } from "../utils/chain";
+import { TtlCache } from "../utils/ttl-cache";
+import type {
+    TezosNFT,
+    TezosCollection,
+    MarketplaceMatch,
+    CollectionMatch,
+    ApiResponse,
+    IgnoredContext,
+    ProfileMatch,
+    TezosProfile,
+    OperationMatch,
+    TezosOperation,
+    TzktOperation,
+    TzktTokenTransfer,
+    FxHashGentk,
+    WalletSummary,
+    TokenTarget,
+    HolderList,
+    ProvenanceEntry,
+    TokenProvenance,
+    Chain,
+} from "../types";
+
+// Type definition for OBJKT sales (listing purchases and sale events)
+interface ObjktSale {
+    amount?: number;
+    price_xtz?: number;
+    timestamp: string;
+    level?: number;
+    ophash?: string;
+    seller?: { address: string; alias?: string } | null;
+    buyer?: { address: string; alias?: string } | null;
+    creator?: { address: string; alias?: string } | null;
+    recipient?: { address: string; alias?: string } | null;
+    marketplace?: { name?: string } | null;
+}
+
+// Wallet summaries count up to this many token balances and value the largest collections at floor
+const WALLET_BALANCE_LIMIT = 1000;
+const WALLET_TOP_COLLECTIONS = 5;
+
+// Holder lists are cached so paging through them doesn't refetch every balance
+const HOLDER_CACHE_TTL = 5 * 60 * 1000;
+const HOLDER_CACHE_MAX_ENTRIES = 100;
+
+// Tokens sent here are burned, they don't count as held or as supply
+const BURN_ADDRESS = "tz1burnburnburnburnburnburnburjAYjjX";
 
 // Type definitions for OBJKT API responses
-interface ObjktTokenMetadata {
+export interface ObjktTokenMetadata {
     name?: string;
     description?: string;
     display_uri?: string;
@@ -13,6 +72,7 @@ interface ObjktTokenMetadata {
     mime_type?: string;
     thumbnail_uri?: string;
     supply?: number;
+    lowest_ask?: number | null;
     creators?: Array<{
         creator_address: string;
         creator_name?: string;
@@ -53,35 +113,55 @@ interface ObjktTokenMetadata {
     };
 }
 
-// Known contract mappings for marketplaces that don't include contract in URL
-const MARKETPLACE_CONTRACTS = {
-    hicetnunc: "KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton", // HicEtNunc 2.0 / Teia
-} as const;
-
-/**
- * Checks if a string is a valid Tezos KT contract address
- */
-function isKTAddress(address: string): boolean {
-    return /^KT1[1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
+// Type definition for OBJKT holder (profile) responses
+interface ObjktHolder {
+    address: string;
+    alias?: string;
+    logo?: string;
+    description?: string;
+    website?: string;
+    twitter?: string;
+    instagram?: string;
+    discord?: string;
+    tzdomain?: string;
+    created_tokens?: Array<{
+        token: {
+            token_id: string;
+            fa_contract: string;
+            name?: string;
+            display_uri?: string;
+            thumbnail_uri?: string;
+            timestamp?: string;
+            lowest_ask?: number;
+        };
+    }>;
 }
 
 export class NFTService {
     private readonly tzktApi: TzktApiService;
     private readonly objktApi: ObjktApiService;
+    private readonly fxhashApi: FxHashApiService;
     private readonly detectionService: NFTDetectionService;
+    private readonly rarityService: RarityService;
+    private readonly holderCache = new TtlCache<HolderList>(HOLDER_CACHE_TTL, HOLDER_CACHE_MAX_ENTRIES);
 
     constructor() {
         this.tzktApi = new TzktApiService();
         this.objktApi = new ObjktApiService();
+        this.fxhashApi = new FxHashApiService();
         this.detectionService = new NFTDetectionService();
+        this.rarityService = new RarityService();
     }
 
     /**
      * Processes a message content and returns NFT data if found
      */
-    public async processMessage(content: string): Promise<ApiResponse<TezosNFT[]>> {
+    public async processMessage(
+        content: string,
+        ignoredContexts?: readonly IgnoredContext[]
+    ): Promise<ApiResponse<TezosNFT[]>> {
         try {
-            const matches = this.detectionService.detectNFTLinks(content);
+            const matches = this.detectionService.detectNFTLinks(content, ignoredContexts);
 
             if (matches.length === 0) {
                 return {
@@ -115,6 +195,8 @@ export class NFTService {
                 };
             }
 
+            await Promise.all(successfulNFTs.map((nft) => this.attachRarity(nft)));
+
             return {
                 success: true,
                 data: successfulNFTs,
@@ -128,12 +210,63 @@ export class NFTService {
         }
     }
 
+    /**
+     * Fetches the first token linked in a URL or text, with its rarity when available
+     */
+    public async fetchToken(url: string): Promise<ApiResponse<TezosNFT>> {
+        const match = this.detectionService.detectNFTLinks(url, [])[0];
+
+        if (!match) {
+            return {
+                success: false,
+                error: `No supported token link found in: ${url}`,
+            };
+        }
+
+        const result = await this.fetchNFTData(match);
+
+        if (result.success && result.data) {
+            await this.attachRarity(result.data);
+        }
+
+        return result;
+    }
+
+    /**
+     * Tells whether two texts first link the same token, however each link is written
+     */
+    public isSameToken(textA: string, textB: string): boolean {
+        const [matchA] = this.detectionService.detectNFTLinks(textA, []);
+        const [matchB] = this.detectionService.detectNFTLinks(textB, []);
+
+        // Detection de-duplicates links by token identity
+        return (
+            !!matchA && !!matchB && this.detectionService.detectNFTLinks(`${matchA.url} ${matchB.url}`, []).length === 1
+        );
+    }
+
+    /**
+     * Builds a token from OBJKT token data fetched by another service, without rarity
+     */
+    public createObjktToken(metadata: unknown, contractAddress: string, tokenId: string): TezosNFT | undefined {
+        return this.buildObjktNFT(metadata, {
+            marketplace: "OBJKT",
+            marketplaceKey: "objkt",
+            contractAddress,
+            tokenId,
+            url: `https://objkt.com/tokens/${contractAddress}/${tokenId}`,
+        }).data;
+    }
+
     /**
      * Processes a message content and returns collection data if found
      */
-    public async processCollections(content: string): Promise<ApiResponse<TezosCollection[]>> {
+    public async processCollections(
+        content: string,
+        ignoredContexts?: readonly IgnoredContext[]
+    ): Promise<ApiResponse<TezosCollection[]>> {
         try {
-            const matches = this.detectionService.detectCollectionLinks(content);
+            const matches = this.detectionService.detectCollectionLinks(content, ignoredContexts);
 
             if (matches.length === 0) {
                 return {
@@ -195,6 +328,706 @@ export class NFTService {
         }
     }
 
+    /**
+     * Processes a message content and returns wallet profile data if found
+     */
+    public async processProfiles(
+        content: string,
+        ignoredContexts?: readonly IgnoredContext[]
+    ): Promise<ApiResponse<TezosProfile[]>> {
+        try {
+            const matches = this.detectionService.detectProfileLinks(content, ignoredContexts);
+
+            if (matches.length === 0) {
+                return {
+                    success: false,
+                    error: "No Tezos profiles found in message",
+                };
+            }
+
+            logger.info(`Found ${matches.length} profile reference(s) in message`);
+
+            const results = await Promise.allSettled(matches.map((match) => this.fetchProfile(match)));
+
+            const successfulProfiles: TezosProfile[] = [];
+            const errors: string[] = [];
+
+            results.forEach((result, index) => {
+                if (result.status === "fulfilled" && result.value.success && result.value.data) {
+                    successfulProfiles.push(result.value.data);
+                } else {
+                    const errorMsg = result.status === "rejected" ? String(result.reason) : result.value.error;
+                    errors.push(`Profile ${matches[index]?.url}: ${errorMsg}`);
+                }
+            });
+
+            if (successfulProfiles.length === 0) {
+                return {
+                    success: false,
+                    error: `Failed to fetch profile data: ${errors.join(", ")}`,
+                };
+            }
+
+            return {
+                success: true,
+                data: successfulProfiles,
+            };
+        } catch (error) {
+            logger.error("Error processing profiles:", error);
+            return {
+                success: false,
+                error: "An unexpected error occurred while processing profiles",
+            };
+        }
+    }
+
+    /**
+     * Fetches an artist profile with their latest mints by address, alias or .tez domain
+     * @param identifier A tz address, OBJKT alias or .tez domain
+     * @param mintLimit Number of latest mints to include
+     */
+    public async getArtist(identifier: string, mintLimit = 5): Promise<ApiResponse<TezosProfile>> {
+        const lookup = identifier.trim().replace(/^@/, "");
+        const match: ProfileMatch = { url: `https://objkt.com/profile/${lookup}` };
+
+        if (isTzAddress(lookup)) {
+            match.address = lookup;
+        } else if (/\.tez$/i.test(lookup)) {
+            match.domain = lookup.toLowerCase();
+
+            // Prefer the on-chain domain record, OBJKT's tzdomain can lag behind transfers
+            const domainResult = await this.tzktApi.resolveDomain(match.domain);
+            match.address = domainResult.data;
+        } else {
+            match.alias = lookup;
+        }
+
+        return this.fetchProfile(match, mintLimit);
+    }
+
+    /**
+     * Summarizes the NFTs held by a wallet: counts, top collections valued at floor and recent pickups
+     * @param identifier A tz address or .tez domain
+     */
+    public async getWalletSummary(identifier: string): Promise<ApiResponse<WalletSummary>> {
+        let address = identifier.trim();
+        let domain: string | undefined;
+
+        if (/\.tez$/i.test(address)) {
+            domain = address.toLowerCase();
+
+            const domainResult = await this.tzktApi.resolveDomain(domain);
+            if (!domainResult.success || !domainResult.data) {
+                return {
+                    success: false,
+                    error: domainResult.error || `Domain not found: ${domain}`,
+                };
+            }
+
+            address = domainResult.data;
+        }
+
+        if (!isTzAddress(address)) {
+            return {
+                success: false,
+                error: `Not a Tezos wallet address or .tez domain: ${identifier}`,
+            };
+        }
+
+        const balancesResult = await this.tzktApi.getTokenBalances(address, WALLET_BALANCE_LIMIT);
+        if (!balancesResult.success || !balancesResult.data) {
+            return {
+                success: false,
+                error: balancesResult.error || "Failed to fetch wallet balances",
+            };
+        }
+
+        const balances = balancesResult.data;
+
+        // Group holdings by collection contract
+        const collections = new Map<string, WalletSummary["topCollections"][number]>();
+        for (const { token, balance } of balances) {
+            const collection = collections.get(token.contract.address) || {
+                contract: token.contract.address,
+                name: token.contract.alias || token.contract.address,
+                tokenCount: 0,
+                editionCount: 0,
+            };
+
+            collection.tokenCount += 1;
+            collection.editionCount += Number(balance);
+            collections.set(token.contract.address, collection);
+        }
+
+        const topCollections = Array.from(collections.values())
+            .sort((a, b) => b.tokenCount - a.tokenCount)
+            .slice(0, WALLET_TOP_COLLECTIONS);
+
+        // Value the editions held in the top collections at their OBJKT floor
+        const floorResults = await Promise.all(
+            topCollections.map((collection) => this.objktApi.getCollectionInfo(collection.contract))
+        );
+
+        let estimatedValue: number | undefined;
+        floorResults.forEach((result, index) => {
+            const collection = topCollections[index];
+            const data = result.data as { name?: string; floor_price?: number } | undefined;
+
+            if (!collection || !data) {
+                return;
+            }
+
+            if (data.name) {
+                collection.name = data.name;
+            }
+
+            if (data.floor_price) {
+                collection.floorPrice = data.floor_price / 1000000;
+                estimatedValue = (estimatedValue || 0) + collection.floorPrice * collection.editionCount;
+            }
+        });
+
+        // Tokens the wallet collected (not minted itself), newest first
+        const recentlyCollected = balances
+            .filter((balance) => balance.token.firstMinter?.address !== address)
+            .sort((a, b) => b.firstTime.localeCompare(a.firstTime))
+            .slice(0, 5)
+            .map(({ token, firstTime }) => ({
+                tokenId: token.tokenId,
+                contractAddress: token.contract.address,
+                name: token.metadata?.name || `#${token.tokenId}`,
+                collectedAt: firstTime,
+                url: `https://objkt.com/tokens/${token.contract.address}/${token.tokenId}`,
+            }));
+
+        const countsResult = await this.tzktApi.getAccountTokenCounts(address);
+
+        return {
+            success: true,
+            data: {
+                address,
+                alias: balances[0]?.account.alias,
+                domain,
+                tokenCount: balances.length,
+                editionCount: balances.reduce((total, balance) => total + Number(balance.balance), 0),
+                collectionCount: collections.size,
+                truncated: balances.length >= WALLET_BALANCE_LIMIT,
+                createdCount: countsResult.data?.createdCount,
+                topCollections,
+                estimatedValue,
+                recentlyCollected,
+                url: `https://objkt.com/profile/${address}/collection`,
+            },
+        };
+    }
+
+    /**
+     * Resolves a contract address, optionally with a token ID, from a KT1 address or any supported token/collection link
+     */
+    public async resolveTokenTarget(input: string): Promise<ApiResponse<TokenTarget>> {
+        const value = input.trim();
+
+        if (isKTAddress(value)) {
+            return {
+                success: true,
+                data: { contractAddress: value },
+            };
+        }
+
+        const tokenMatch = this.detectionService.detectNFTLinks(value, [])[0];
+        const collectionMatch = this.detectionService.detectCollectionLinks(value, [])[0];
+        const adapter = tokenMatch && getMarketplaceAdapter(tokenMatch.marketplaceKey);
+
+        let contractAddress = tokenMatch
+            ? tokenMatch.contractAddress || adapter?.fetchStrategy.contractAddress
+            : collectionMatch?.contractAddress;
+
+        if (contractAddress && !isKTAddress(contractAddress)) {
+            contractAddress = (await this.resolveContractAddress(contractAddress)) || undefined;
+        }
+
+        if (!contractAddress || !isKTAddress(contractAddress)) {
+            return {
+                success: false,
+                error: `Could not find a Tezos contract in: ${value}`,
+            };
+        }
+
+        return {
+            success: true,
+            data: { contractAddress, tokenId: tokenMatch?.tokenId },
+        };
+    }
+
+    /**
+     * Gets the holders of a collection or a single token, aggregated per wallet and sorted by balance
+     */
+    public async getHolders(contractAddress: string, tokenId?: string): Promise<ApiResponse<HolderList>> {
+        const cacheKey = `${contractAddress}/${tokenId ?? "*"}`;
+        const cached = this.holderCache.get(cacheKey);
+
+        if (cached) {
+            return {
+                success: true,
+                data: cached,
+            };
+        }
+
+        const balancesResult = await this.tzktApi.getTokenHolders(contractAddress, tokenId);
+        if (!balancesResult.success || !balancesResult.data) {
+            return {
+                success: false,
+                error: balancesResult.error || "Failed to fetch holders",
+            };
+        }
+
+        // A collection has one balance per token and wallet, sum them per wallet
+        const holders = new Map<string, HolderList["holders"][number]>();
+        for (const { account, balance } of balancesResult.data) {
+            if (account.address === BURN_ADDRESS) {
+                continue;
+            }
+
+            const holder = holders.get(account.address) || {
+                address: account.address,
+                alias: account.alias,
+                balance: 0,
+            };
+
+            holder.balance += Number(balance);
+            holders.set(account.address, holder);
+        }
+
+        const sortedHolders = Array.from(holders.values()).sort((a, b) => b.balance - a.balance);
+        const name = await this.getTargetName(contractAddress, tokenId);
+
+        const data: HolderList = {
+            contract: contractAddress,
+            tokenId,
+            name,
+            holders: sortedHolders,
+            totalSupply: sortedHolders.reduce((total, holder) => total + holder.balance, 0),
+            truncated: balancesResult.data.length >= 10000,
+            url: tokenId
+                ? `https://objkt.com/tokens/${contractAddress}/${tokenId}`
+                : `https://objkt.com/collections/${contractAddress}`,
+        };
+
+        this.holderCache.set(cacheKey, data);
+
+        return {
+            success: true,
+            data,
+        };
+    }
+
+    /**
+     * Builds a token's provenance: mint, transfers, burns and sales with prices, newest first
+     * @param limit Maximum number of entries
+     */
+    public async getProvenance(
+        contractAddress: string,
+        tokenId: string,
+        limit = 15
+    ): Promise<ApiResponse<TokenProvenance>> {
+        const [transfersResult, salesResult] = await Promise.all([
+            this.tzktApi.getTokenTransfers(contractAddress, tokenId),
+            this.objktApi.getTokenSales(contractAddress, tokenId),
+        ]);
+
+        if (!transfersResult.success || !transfersResult.data) {
+            return {
+                success: false,
+                error: transfersResult.error || "Failed to fetch token transfers",
+            };
+        }
+
+        // Listing purchases also show up as sale events, keep one entry per operation
+        const salesData = salesResult.data as { listingSales: ObjktSale[]; events: ObjktSale[] } | undefined;
+        const sales: ObjktSale[] = [];
+        const seenOperations = new Set<string>();
+        for (const sale of [...(salesData?.listingSales || []), ...(salesData?.events || [])]) {
+            if (sale.ophash && seenOperations.has(sale.ophash)) {
+                continue;
+            }
+            if (sale.ophash) {
+                seenOperations.add(sale.ophash);
+            }
+            sales.push(sale);
+        }
+
+        const entries: ProvenanceEntry[] = transfersResult.data.map((transfer) => {
+            const from = transfer.from ? { address: transfer.from.address, alias: transfer.from.alias } : undefined;
+            const to = transfer.to ? { address: transfer.to.address, alias: transfer.to.alias } : undefined;
+
+            // A sale moves the token in the same block to the buyer
+            const saleIndex = sales.findIndex(
+                (sale) =>
+                    sale.level === transfer.level &&
+                    (!to || !(sale.buyer || sale.recipient) || (sale.buyer || sale.recipient)?.address === to.address)
+            );
+            const sale = saleIndex >= 0 ? sales.splice(saleIndex, 1)[0] : undefined;
+
+            let type: ProvenanceEntry["type"] = "transfer";
+            if (!from) {
+                type = "mint";
+            } else if (!to || to.address === BURN_ADDRESS) {
+                type = "burn";
+            } else if (sale) {
+                type = "sale";
+            }
+
+            return {
+                type,
+                timestamp: transfer.timestamp,
+                from,
+                to,
+                amount: Number(transfer.amount),
+                price: sale?.price_xtz ? sale.price_xtz / 1000000 : undefined,
+                marketplace: sale?.marketplace?.name,
+                url: sale?.ophash ? `https://tzkt.io/${sale.ophash}` : undefined,
+            };
+        });
+
+        // Sales older than the fetched transfers, or missing from TZKT
+        for (const sale of sales) {
+            const seller = sale.seller || sale.creator;
+            const buyer = sale.buyer || sale.recipient;
+
+            entries.push({
+                type: "sale",
+                timestamp: sale.timestamp,
+                from: seller ? { address: seller.address, alias: seller.alias } : undefined,
+                to: buyer ? { address: buyer.address, alias: buyer.alias } : undefined,
+                amount: sale.amount || 1,
+                price: sale.price_xtz ? sale.price_xtz / 1000000 : undefined,
+                marketplace: sale.marketplace?.name,
+                url: sale.ophash ? `https://tzkt.io/${sale.ophash}` : undefined,
+            });
+        }
+
+        entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+        return {
+            success: true,
+            data: {
+                contract: contractAddress,
+                tokenId,
+                name: await this.getTargetName(contractAddress, tokenId),
+                entries: entries.slice(0, limit),
+                url: `https://objkt.com/tokens/${contractAddress}/${tokenId}`,
+            },
+        };
+    }
+
+    /**
+     * Gets a display name for a token (its metadata name) or a collection (its contract alias)
+     */
+    private async getTargetName(contractAddress: string, tokenId?: string): Promise<string> {
+        if (tokenId) {
+            const tokenResult = await this.tzktApi.getTokenInfo(contractAddress, tokenId);
+            return tokenResult.data?.token?.metadata?.name || `#${tokenId}`;
+        }
+
+        const contractResult = await this.tzktApi.getContractInfo(contractAddress);
+        return (contractResult.data as { alias?: string } | undefined)?.alias || contractAddress;
+    }
+
+    /**
+     * Fetches a wallet profile from OBJKT, falling back to TZKT account data
+     */
+    private async fetchProfile(match: ProfileMatch, mintLimit = 5): Promise<ApiResponse<TezosProfile>> {
+        const holderResult = await this.objktApi.getHolderProfile(match, mintLimit);
+
+        let profile: TezosProfile;
+
+        if (holderResult.success && holderResult.data) {
+            profile = this.buildProfileFromHolder(holderResult.data as ObjktHolder);
+        } else {
+            logger.warn(`OBJKT holder lookup failed for ${match.url}, falling back to TZKT`);
+
+            const tzktProfile = await this.fetchTzktProfile(match, mintLimit);
+            if (!tzktProfile.success || !tzktProfile.data) {
+                return tzktProfile;
+            }
+
+            profile = tzktProfile.data;
+        }
+
+        const countsResult = await this.tzktApi.getAccountTokenCounts(profile.address);
+        if (countsResult.success && countsResult.data) {
+            profile.createdCount = countsResult.data.createdCount;
+            profile.collectedCount = countsResult.data.collectedCount;
+        }
+
+        return {
+            success: true,
+            data: profile,
+        };
+    }
+
+    /**
+     * Builds a TezosProfile from an OBJKT holder entity
+     */
+    private buildProfileFromHolder(holder: ObjktHolder): TezosProfile {
+        return {
+            address: holder.address,
+            alias: holder.alias || undefined,
+            domain: holder.tzdomain || undefined,
+            avatar: this.formatImageUrl(holder.logo),
+            description: holder.description || undefined,
+            twitter: holder.twitter || undefined,
+            instagram: holder.instagram || undefined,
+            website: holder.website || undefined,
+            discord: holder.discord || undefined,
+            recentMints: holder.created_tokens?.map(({ token }) => ({
+                tokenId: token.token_id,
+                contractAddress: token.fa_contract,
+                name: token.name || `#${token.token_id}`,
+                imageUrl: this.formatImageUrl(token.thumbnail_uri || token.display_uri),
+                mintedAt: token.timestamp,
+                lowestAsk: token.lowest_ask ? token.lowest_ask / 1000000 : undefined,
+                url: `https://objkt.com/tokens/${token.fa_contract}/${token.token_id}`,
+            })),
+            url: `https://objkt.com/profile/${holder.address}`,
+        };
+    }
+
+    /**
+     * Builds a TezosProfile from TZKT account data (no socials beyond TZIP profile metadata)
+     */
+    private async fetchTzktProfile(match: ProfileMatch, mintLimit = 5): Promise<ApiResponse<TezosProfile>> {
+        let address = match.address;
+
+        if (!address && match.domain) {
+            const domainResult = await this.tzktApi.resolveDomain(match.domain);
+            address = domainResult.data;
+        }
+
+        if (!address) {
+            return {
+                success: false,
+                error: `Could not resolve an address for: ${match.alias || match.domain || match.url}`,
+            };
+        }
+
+        const [accountResult, mintsResult] = await Promise.all([
+            this.tzktApi.getAccountInfo(address),
+            this.tzktApi.getTokensByCreator(address, mintLimit),
+        ]);
+
+        if (!accountResult.success || !accountResult.data) {
+            return {
+                success: false,
+                error: accountResult.error || "Account not found",
+            };
+        }
+
+        const account = accountResult.data;
+
+        return {
+            success: true,
+            data: {
+                address: account.address,
+                alias: account.alias || account.metadata?.alias,
+                domain: match.domain,
+                avatar: this.formatImageUrl(account.metadata?.logo),
+                description: account.metadata?.description,
+                twitter: account.metadata?.twitter,
+                instagram: account.metadata?.instagram,
+                website: account.metadata?.site,
+                discord: account.metadata?.discord,
+                recentMints: mintsResult.data?.map((token) => ({
+                    tokenId: token.tokenId,
+                    contractAddress: token.contract.address,
+                    name: token.metadata?.name || `#${token.tokenId}`,
+                    imageUrl: this.formatImageUrl(token.metadata?.thumbnailUri || token.metadata?.displayUri),
+                    mintedAt: token.firstTime,
+                    url: `https://objkt.com/tokens/${token.contract.address}/${token.tokenId}`,
+                })),
+                url: `https://objkt.com/profile/${account.address}`,
+            },
+        };
+    }
+
+    /**
+     * Processes a message content and returns decoded operations if found
+     */
+    public async processOperations(
+        content: string,
+        ignoredContexts?: readonly IgnoredContext[]
+    ): Promise<ApiResponse<TezosOperation[]>> {
+        try {
+            const matches = this.detectionService.detectOperationLinks(content, ignoredContexts);
+
+            if (matches.length === 0) {
+                return {
+                    success: false,
+                    error: "No Tezos operation hashes found in message",
+                };
+            }
+
+            logger.info(`Found ${matches.length} operation hash(es) in message`);
+
+            const results = await Promise.allSettled(matches.map((match) => this.fetchOperation(match)));
+
+            const successfulOperations: TezosOperation[] = [];
+            const errors: string[] = [];
+
+            results.forEach((result, index) => {
+                if (result.status === "fulfilled" && result.value.success && result.value.data) {
+                    successfulOperations.push(result.value.data);
+                } else {
+                    const errorMsg = result.status === "rejected" ? String(result.reason) : result.value.error;
+                    errors.push(`Operation ${matches[index]?.hash}: ${errorMsg}`);
+                }
+            });
+
+            if (successfulOperations.length === 0) {
+                return {
+                    success: false,
+                    error: `Failed to fetch operation data: ${errors.join(", ")}`,
+                };
+            }
+
+            return {
+                success: true,
+                data: successfulOperations,
+            };
+        } catch (error) {
+            logger.error("Error processing operations:", error);
+            return {
+                success: false,
+                error: "An unexpected error occurred while processing operations",
+            };
+        }
+    }
+
+    /**
+     * Fetches an operation group from TZKT and decodes it
+     */
+    private async fetchOperation(match: OperationMatch): Promise<ApiResponse<TezosOperation>> {
+        const operationResult = await this.tzktApi.getOperation(match.hash);
+
+        if (!operationResult.success || !operationResult.data) {
+            return {
+                success: false,
+                error: operationResult.error || "Failed to fetch operation",
+            };
+        }
+
+        return this.buildOperation(operationResult.data.operations, operationResult.data.transfers, match);
+    }
+
+    /**
+     * Decodes a TZKT operation group into a human-readable TezosOperation
+     */
+    private buildOperation(
+        operations: TzktOperation[],
+        transfers: TzktTokenTransfer[],
+        match: OperationMatch
+    ): ApiResponse<TezosOperation> {
+        // The first transaction in the group is the one signed by the sender, the rest are internal calls
+        const main = operations.find((op) => op.type === "transaction") || operations[0];
+
+        if (!main?.sender) {
+            return {
+                success: false,
+                error: "Operation has no sender",
+            };
+        }
+
+        const amount = (main.amount || 0) / 1000000;
+        const fee =
+            operations.reduce(
+                (sum, op) => sum + (op.bakerFee || 0) + (op.storageFee || 0) + (op.allocationFee || 0),
+                0
+            ) / 1000000;
+
+        const entrypoint = main.parameter?.entrypoint;
+        const targetAddress = main.target?.address;
+        const isPurchase = entrypoint !== undefined && (PURCHASE_ENTRYPOINTS as readonly string[]).includes(entrypoint);
+
+        const operation: TezosOperation = {
+            hash: match.hash,
+            status: main.status,
+            timestamp: main.timestamp,
+            sender: {
+                address: main.sender.address,
+                alias: main.sender.alias,
+            },
+            target: main.target
+                ? {
+                      address: main.target.address,
+                      alias: main.target.alias,
+                  }
+                : undefined,
+            entrypoint,
+            amount,
+            fee,
+            tokens: transfers.map((transfer) => ({
+                contractAddress: transfer.token.contract.address,
+                tokenId: transfer.token.tokenId,
+                name: transfer.token.metadata?.name || `#${transfer.token.tokenId}`,
+                amount: transfer.amount,
+                imageUrl: this.formatImageUrl(
+                    transfer.token.metadata?.displayUri || transfer.token.metadata?.thumbnailUri
+                ),
+                from: transfer.from,
+                to: transfer.to,
+            })),
+            sale:
+                isPurchase && targetAddress
+                    ? {
+                          marketplace:
+                              MARKETPLACE_TRADING_CONTRACTS[targetAddress] || main.target?.alias || "Marketplace",
+                          price: amount,
+                      }
+                    : undefined,
+            url: match.url,
+        };
+
+        return {
+            success: true,
+            data: operation,
+        };
+    }
+
+    /**
+     * Searches collections by name for command autocomplete
+     */
+    public async searchCollections(query: string): Promise<ApiResponse<Array<{ contract: string; name: string }>>> {
+        return this.objktApi.searchCollections(query);
+    }
+
+    /**
+     * Fetches a collection by contract address (KT1 or Etherlink 0x) or by name, using the best name match
+     */
+    public async getCollection(contractOrName: string): Promise<ApiResponse<TezosCollection>> {
+        let contractAddress = contractOrName.trim();
+
+        if (!isKTAddress(contractAddress) && !isEVMAddress(contractAddress)) {
+            const searchResult = await this.objktApi.searchCollections(contractAddress, 1);
+            const bestMatch = searchResult.data?.[0];
+
+            if (!bestMatch) {
+                return {
+                    success: false,
+                    error: searchResult.error || `No collection found for "${contractAddress}"`,
+                };
+            }
+
+            contractAddress = bestMatch.contract;
+        }
+
+        return this.fetchObjktCollection({
+            marketplace: "OBJKT",
+            marketplaceKey: "objkt",
+            contractAddress,
+            url: `https://objkt.com/collections/${contractAddress}`,
+        });
+    }
+
     /**
      * Fetches collection data for a specific marketplace match
      */
@@ -225,7 +1058,7 @@ export class NFTService {
                 logger.info(`Fetching project collection: ${match.marketplace}/${match.projectId}`);
 
                 const projectResult = await this.objktApi.getCollectionByProject(
-                    match.contractAddress || match.marketplace.toLowerCase(),
+                    match.contractAddress || match.marketplaceKey,
                     match.projectId
                 );
 
@@ -239,8 +1072,8 @@ export class NFTService {
 
             let contractAddress = match.contractAddress;
 
-            // Handle non-KT addresses by resolving them
-            if (contractAddress && !this.isKTAddress(contractAddress)) {
+            // Handle non-KT addresses by resolving them (Etherlink 0x contracts are used as is)
+            if (contractAddress && !isKTAddress(contractAddress) && !isEVMAddress(contractAddress)) {
                 const resolvedContract = await this.resolveContractAddress(contractAddress);
                 if (!resolvedContract) {
                     return {
@@ -259,7 +1092,10 @@ export class NFTService {
             }
 
             // Fetch collection data using OBJKT API
-            const collectionResult = await this.objktApi.getCollectionInfo(contractAddress);
+            const collectionResult = await this.objktApi.getCollectionInfo(
+                contractAddress,
+                isEVMAddress(contractAddress) ? "etherlink" : "tezos"
+            );
 
             if (!collectionResult.success || !collectionResult.data) {
                 return {
@@ -299,23 +1135,44 @@ export class NFTService {
                 volume_24h?: number;
                 volume_total?: number;
                 verified_creators?: string[];
+                mint_progress?: { minted: number; total: number; price?: number };
+                chain?: string;
             };
 
+            const chain =
+                parseChain(collectionData.chain) ||
+                (collectionData.contract && isEVMAddress(collectionData.contract) ? "etherlink" : undefined);
+
             const collection: TezosCollection = {
                 contract: collectionData.contract || match.contractAddress || "Unknown",
                 name: collectionData.name || "Unknown Collection",
+                chain,
                 description: collectionData.description || undefined,
                 logo: collectionData.logo || undefined,
                 collectionType: collectionData.collection_type || undefined,
-                floorPrice: collectionData.floor_price ? collectionData.floor_price / 1000000 : undefined,
+                floorPrice: collectionData.floor_price
+                    ? fromSmallestUnit(collectionData.floor_price, chain)
+                    : undefined,
                 items: collectionData.items || undefined,
                 editions: collectionData.editions || undefined,
                 owners: collectionData.owners || undefined,
                 twitter: collectionData.twitter || undefined,
                 website: collectionData.website || undefined,
-                volume24h: collectionData.volume_24h ? collectionData.volume_24h / 1000000 : undefined,
-                volumeTotal: collectionData.volume_total ? collectionData.volume_total / 1000000 : undefined,
+                volume24h: collectionData.volume_24h ? fromSmallestUnit(collectionData.volume_24h, chain) : undefined,
+                volumeTotal: collectionData.volume_total
+                    ? fromSmallestUnit(collectionData.volume_total, chain)
+                    : undefined,
                 verifiedCreators: collectionData.verified_creators || undefined,
+                mintProgress: collectionData.mint_progress
+                    ? {
+                          minted: collectionData.mint_progress.minted,
+                          total: collectionData.mint_progress.total,
+                          price:
+                              collectionData.mint_progress.price !== undefined
+                                  ? fromSmallestUnit(collectionData.mint_progress.price, chain)
+                                  : undefined,
+                      }
+                    : undefined,
                 marketplace: {
                     name: match.marketplace,
                     url: match.url,
@@ -342,28 +1199,32 @@ export class NFTService {
         try {
             logger.info(`Fetching NFT data for ${match.marketplace}: ${match.tokenId}`);
 
-            switch (match.marketplace.toLowerCase()) {
+            const adapter = getMarketplaceAdapter(match.marketplaceKey);
+
+            if (!adapter) {
+                return {
+                    success: false,
+                    error: `Unsupported marketplace: ${match.marketplace}`,
+                };
+            }
+
+            // Marketplaces that don't include the contract in the URL provide a default one
+            const contractAddress = match.contractAddress || adapter.fetchStrategy.contractAddress;
+
+            switch (adapter.fetchStrategy.source) {
                 case "objkt":
-                    return await this.fetchObjktNFT(match);
-                case "bootloader": {
-                    // Bootloader tokens are indexed in OBJKT, so treat them as OBJKT tokens
-                    // but resolve the contract address first
-                    const bootloaderMatch = {
-                        ...match,
-                        marketplace: "OBJKT",
-                        contractAddress: match.contractAddress || "bootloader", // Use bootloader as path to resolve
-                    };
-                    return await this.fetchObjktNFT(bootloaderMatch);
-                }
-                case "editart":
-                    // EditArt tokens are indexed in OBJKT and URLs include contract address
-                    return await this.fetchObjktNFT(match);
+                    return await this.fetchObjktNFT({ ...match, contractAddress });
                 case "fxhash":
-                    return await this.fetchFxHashNFT(match);
-                case "teia":
-                    return await this.fetchTeiaNFT(match);
-                case "versum":
-                    return await this.fetchVersumNFT(match);
+                    return await this.fetchFxHashNFT({ ...match, contractAddress });
+                case "tzkt":
+                    if (!contractAddress) {
+                        return {
+                            success: false,
+                            error: `Contract address is required for ${match.marketplace} tokens`,
+                        };
+                    }
+
+                    return await this.fetchFromTzkt(contractAddress, match.tokenId, match.marketplace, match.url);
                 default:
                     return {
                         success: false,
@@ -379,18 +1240,56 @@ export class NFTService {
         }
     }
 
+    /**
+     * Adds the token's rarity within its collection when the collection has a known size and trait data
+     */
+    private async attachRarity(nft: TezosNFT): Promise<void> {
+        if (!nft.contractAddress || (nft.chain && nft.chain !== "tezos")) {
+            return;
+        }
+
+        // Unknown sizes are skipped too, rather than risk a full scan of a huge contract on an ordinary preview
+        const items = nft.collection?.items;
+        if (items === undefined || items > RARITY_MAX_TOKENS) {
+            return;
+        }
+
+        try {
+            const rarityResult = await this.rarityService.getTokenRarity(nft.contractAddress, nft.id, nft.projectId);
+            if (rarityResult.success && rarityResult.data) {
+                nft.rarity = rarityResult.data;
+            }
+        } catch (error) {
+            logger.warn(`Failed to compute rarity for ${nft.contractAddress}/${nft.id}:`, error);
+        }
+    }
+
     /**
      * Fetches NFT data from OBJKT
      */
     private async fetchObjktNFT(match: MarketplaceMatch): Promise<ApiResponse<TezosNFT>> {
         let contractAddress = match.contractAddress;
 
+        // Etherlink collections carry their 0x contract in the URL and don't need resolving
+        if (contractAddress && isEVMAddress(contractAddress)) {
+            const metadataResult = await this.objktApi.getTokenMetadata(contractAddress, match.tokenId, "etherlink");
+
+            if (!metadataResult.success || !metadataResult.data) {
+                return {
+                    success: false,
+                    error: `Failed to fetch Etherlink token metadata: ${metadataResult.error}`,
+                };
+            }
+
+            return this.buildObjktNFT(metadataResult.data, { ...match, chain: "etherlink" });
+        }
+
         // If no contract address provided, or if it's not a KT address, resolve it
         if (!contractAddress || !isKTAddress(contractAddress)) {
             const pathToResolve = contractAddress || match.tokenId;
 
             // First try hardcoded mappings
-            if (contractAddress && contractAddress in MARKETPLACE_CONTRACTS) {
+            if (contractAddress && Object.hasOwn(MARKETPLACE_CONTRACTS, contractAddress)) {
                 contractAddress = MARKETPLACE_CONTRACTS[contractAddress as keyof typeof MARKETPLACE_CONTRACTS];
                 logger.info(`Mapped ${match.contractAddress} to ${contractAddress}`);
             } else {
@@ -429,7 +1328,7 @@ export class NFTService {
         }
 
         const metadata = metadataResult.data;
-        return this.buildObjktNFT(metadata, match);
+        return this.buildObjktNFT(metadata, { ...match, contractAddress });
     }
 
     private buildObjktNFT(metadata: unknown, match: MarketplaceMatch): ApiResponse<TezosNFT> {
@@ -437,10 +1336,11 @@ export class NFTService {
         const typedMetadata = metadata as ObjktTokenMetadata;
 
         // Determine sale type and pricing
-        const saleInfo = this.determineSaleType(typedMetadata);
+        const saleInfo = this.determineSaleType(typedMetadata, match.chain);
 
         const nft: TezosNFT = {
             id: match.tokenId,
+            contractAddress: match.contractAddress,
             name: typedMetadata.name || "Unknown NFT",
             description: typedMetadata.description,
             imageUrl: this.formatImageUrl(
@@ -462,20 +1362,28 @@ export class NFTService {
             edition: saleInfo.edition,
             saleType: saleInfo.saleType,
             openEditionInfo: saleInfo.openEditionInfo,
+            auctionInfo: saleInfo.auctionInfo,
+            chain: match.chain,
             collection: typedMetadata.fa
                 ? {
                       name: typedMetadata.fa.name || "Unknown Collection",
                       description: typedMetadata.fa.description,
                       logo: typedMetadata.fa.logo,
                       collectionType: typedMetadata.fa.collection_type,
-                      floorPrice: typedMetadata.fa.floor_price ? typedMetadata.fa.floor_price / 1000000 : undefined,
+                      floorPrice: typedMetadata.fa.floor_price
+                          ? fromSmallestUnit(typedMetadata.fa.floor_price, match.chain)
+                          : undefined,
                       items: typedMetadata.fa.items,
                       editions: typedMetadata.fa.editions,
                       owners: typedMetadata.fa.owners,
                       twitter: typedMetadata.fa.twitter,
                       website: typedMetadata.fa.website,
-                      volume24h: typedMetadata.fa.volume_24h ? typedMetadata.fa.volume_24h / 1000000 : undefined,
-                      volumeTotal: typedMetadata.fa.volume_total ? typedMetadata.fa.volume_total / 1000000 : undefined,
+                      volume24h: typedMetadata.fa.volume_24h
+                          ? fromSmallestUnit(typedMetadata.fa.volume_24h, match.chain)
+                          : undefined,
+                      volumeTotal: typedMetadata.fa.volume_total
+                          ? fromSmallestUnit(typedMetadata.fa.volume_total, match.chain)
+                          : undefined,
                       verifiedCreators: typedMetadata.fa.verified_creators,
                   }
                 : undefined,
@@ -498,46 +1406,147 @@ export class NFTService {
     }
 
     /**
-     * Fetches NFT data from fxhash (using TZKT as fallback)
+     * Fetches NFT data from the fx(hash) API (using TZKT as fallback)
      */
     private async fetchFxHashNFT(match: MarketplaceMatch): Promise<ApiResponse<TezosNFT>> {
-        // fxhash uses specific contract addresses, we'll need to determine the contract
-        const fxhashContract = "KT1KEa8z6vWXDJrVqtMrAeDVzsvxat3kHaCE"; // fx(hash) v2 contract
+        const gentkResult = await this.fxhashApi.getGentk(match.tokenId);
 
-        return await this.fetchFromTzkt(fxhashContract, match.tokenId, "fxhash", match.url);
+        if (gentkResult.success && gentkResult.data) {
+            return this.buildFxHashNFT(gentkResult.data, match);
+        }
+
+        // Tokens on other chains can't be read from TZKT, show an explicit notice instead
+        if (match.chain && match.chain !== "tezos") {
+            logger.warn(`fx(hash) API lookup failed for ${CHAIN_NAMES[match.chain]} token ${match.tokenId}`);
+            return this.buildChainNoticeNFT(match);
+        }
+
+        logger.warn(`fx(hash) API lookup failed for gentk ${match.tokenId}, falling back to TZKT`);
+
+        // Gentk ids look like FX<version>-<token id>, the version selects the gentk contract
+        const gentkId = this.fxhashApi.toGentkId(match.tokenId)?.match(/^FX(\d+)-(\d+)$/);
+
+        if (!gentkId) {
+            return {
+                success: false,
+                error: gentkResult.error || `Unrecognized fxhash token: ${match.tokenId}`,
+            };
+        }
+
+        const contractAddress = (gentkId[1] && FXHASH_GENTK_CONTRACTS[gentkId[1]]) || match.contractAddress;
+        const tokenId = gentkId[2] || match.tokenId;
+
+        if (!contractAddress) {
+            return {
+                success: false,
+                error: gentkResult.error || "Contract address is required for fxhash tokens",
+            };
+        }
+
+        return await this.fetchFromTzkt(contractAddress, tokenId, match.marketplace, match.url);
     }
 
     /**
-     * Fetches NFT data from Teia (using OBJKT API with HEN contract)
+     * Builds a placeholder NFT telling users a linked token lives on another chain
      */
-    private async fetchTeiaNFT(match: MarketplaceMatch): Promise<ApiResponse<TezosNFT>> {
-        // Teia uses HEN contract - use OBJKT API since it indexes HEN tokens
-        const henContract = MARKETPLACE_CONTRACTS.hicetnunc;
-
-        logger.info(`Fetching Teia NFT from OBJKT API: ${henContract}/${match.tokenId}`);
+    private buildChainNoticeNFT(match: MarketplaceMatch): ApiResponse<TezosNFT> {
+        const chainName = CHAIN_NAMES[match.chain || "tezos"];
 
-        // Create a new match object with the contract address
-        const objktMatch: MarketplaceMatch = {
-            ...match,
-            marketplace: "Teia", // Keep original marketplace name
-            contractAddress: henContract,
+        return {
+            success: true,
+            data: {
+                id: match.tokenId,
+                name: `${match.marketplace} ${chainName} token`,
+                description: `This token lives on ${chainName}, not Tezos, so a full Tezos preview isn't available.`,
+                creator: {
+                    address: "Unknown",
+                },
+                chain: match.chain,
+                marketplace: {
+                    name: match.marketplace,
+                    url: match.url,
+                },
+            },
         };
-
-        return await this.fetchObjktNFT(objktMatch);
     }
 
     /**
-     * Fetches NFT data from Versum
+     * Builds a TezosNFT from an fx(hash) gentk
      */
-    private async fetchVersumNFT(match: MarketplaceMatch): Promise<ApiResponse<TezosNFT>> {
-        if (!match.contractAddress) {
-            return {
-                success: false,
-                error: "Contract address is required for Versum tokens",
-            };
-        }
+    private buildFxHashNFT(gentk: FxHashGentk, match: MarketplaceMatch): ApiResponse<TezosNFT> {
+        const project = gentk.issuer;
+        const iteration = gentk.iteration ?? undefined;
+        const chain = parseChain(project?.chain) || match.chain || "tezos";
+
+        const price = gentk.activeListing
+            ? {
+                  amount: fromSmallestUnit(gentk.activeListing.price, chain),
+                  ...(chain === "tezos" ? { currency: "XTZ", symbol: "ꜩ" } : { currency: "ETH", symbol: "Ξ" }),
+              }
+            : undefined;
+
+        // Tezos gentk ids look like FX<version>-<token id>, the version selects the gentk contract
+        const gentkVersion = gentk.id.match(/^FX(\d+)-/)?.[1];
+
+        const nft: TezosNFT = {
+            id: gentk.id.replace(/^FX\d+-/, ""),
+            contractAddress: chain === "tezos" && gentkVersion ? FXHASH_GENTK_CONTRACTS[gentkVersion] : undefined,
+            name: gentk.name || (project ? `${project.name} #${iteration ?? "?"}` : "Unknown NFT"),
+            description: project?.metadata?.description || gentk.metadata?.description,
+            imageUrl: this.formatImageUrl(gentk.displayUri || gentk.thumbnailUri || undefined),
+            creator: {
+                address: project?.author?.id || "Unknown",
+                alias: project?.author?.name || undefined,
+                discord: undefined,
+                twitter: undefined,
+                website: undefined,
+                description: undefined,
+            },
+            price,
+            saleType: gentk.activeListing ? "listing" : "none",
+            edition:
+                iteration !== undefined && project
+                    ? {
+                          current: iteration,
+                          total: project.supply,
+                      }
+                    : undefined,
+            iteration,
+            projectId: project ? String(project.id) : undefined,
+            chain,
+            collection: project
+                ? {
+                      name: project.name,
+                      slug: project.slug || undefined,
+                      collectionType: "generative",
+                      floorPrice:
+                          chain === "tezos" && project.marketStats?.floor
+                              ? project.marketStats.floor / 1000000
+                              : undefined,
+                      items: project.supply - project.balance,
+                      editions: project.supply,
+                      website: `https://www.fxhash.xyz/generative/${project.id}`,
+                  }
+                : undefined,
+            marketplace: {
+                name: match.marketplace,
+                url: match.url,
+            },
+            attributes: gentk.features?.map((feature) => ({
+                trait_type: feature.name,
+                value: typeof feature.value === "boolean" ? String(feature.value) : feature.value,
+            })),
+            metadata: {
+                artifactUri: gentk.metadata?.artifactUri,
+                displayUri: gentk.displayUri || undefined,
+                thumbnailUri: gentk.thumbnailUri || undefined,
+            },
+        };
 
-        return await this.fetchFromTzkt(match.contractAddress, match.tokenId, "Versum", match.url);
+        return {
+            success: true,
+            data: nft,
+        };
     }
 
     /**
@@ -563,6 +1572,7 @@ export class NFTService {
 
         const nft: TezosNFT = {
             id: tokenId,
+            contractAddress,
             name: metadata?.name || "Unknown NFT",
             description: metadata?.description,
             imageUrl: this.formatImageUrl(metadata?.displayUri || metadata?.image),
@@ -609,19 +1619,12 @@ export class NFTService {
         return url;
     }
 
-    /**
-     * Checks if a string is a KT contract address
-     */
-    private isKTAddress(address: string): boolean {
-        return /^KT1[1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
-    }
-
     /**
      * Resolves a marketplace path to contract address
      */
     private async resolveContractAddress(path: string): Promise<string | null> {
         // Check hardcoded mappings first
-        if (path in MARKETPLACE_CONTRACTS) {
+        if (Object.hasOwn(MARKETPLACE_CONTRACTS, path)) {
             return MARKETPLACE_CONTRACTS[path as keyof typeof MARKETPLACE_CONTRACTS];
         }
 
@@ -638,20 +1641,25 @@ export class NFTService {
     /**
      * Determines sale type and returns appropriate pricing and edition info
      * Priority: Open Edition > Listings > Auctions
+     * Prices are converted from the chain's smallest unit (mutez on Tezos, 18 decimals on Etherlink)
      */
-    private determineSaleType(metadata: ObjktTokenMetadata): {
+    private determineSaleType(
+        metadata: ObjktTokenMetadata,
+        chain: Chain | undefined
+    ): {
         price?: { amount: number; currency: string; symbol: string } | undefined;
         edition?: { current: number; total: number } | undefined;
         saleType?: "open_edition" | "listing" | "dutch_auction" | "english_auction" | "none" | undefined;
         openEditionInfo?:
             | { maxPerWallet?: number; endTime?: string; startTime?: string; mintedCount?: number }
             | undefined;
+        auctionInfo?: { endTime?: string | undefined; highestBid?: number | undefined } | undefined;
     } {
         // Check for Open Edition first (highest priority)
         if (metadata.open_edition_active) {
             return {
                 price: {
-                    amount: metadata.open_edition_active.price / 1000000,
+                    amount: fromSmallestUnit(metadata.open_edition_active.price, chain),
                     currency: "XTZ",
                     symbol: "ꜩ",
                 },
@@ -680,7 +1688,7 @@ export class NFTService {
             };
             return {
                 price: {
-                    amount: parseFloat(listing.price) / 1000000,
+                    amount: fromSmallestUnit(listing.price, chain),
                     currency: "XTZ",
                     symbol: "ꜩ",
                 },
@@ -698,10 +1706,12 @@ export class NFTService {
             const auction = metadata.english_auctions_active[0] as {
                 current_price?: string;
                 reserve: string;
+                highest_bid?: string | null;
+                end_time?: string | null;
             };
             return {
                 price: {
-                    amount: parseFloat(auction.current_price || auction.reserve) / 1000000,
+                    amount: fromSmallestUnit(auction.current_price || auction.reserve, chain),
                     currency: "XTZ",
                     symbol: "ꜩ",
                 },
@@ -711,6 +1721,10 @@ export class NFTService {
                 },
                 saleType: "english_auction",
                 openEditionInfo: undefined as undefined,
+                auctionInfo: {
+                    endTime: auction.end_time || undefined,
+                    highestBid: auction.highest_bid ? fromSmallestUnit(auction.highest_bid, chain) : undefined,
+                },
             };
         }
 
@@ -718,10 +1732,11 @@ export class NFTService {
         if (metadata.dutch_auctions_active && metadata.dutch_auctions_active.length > 0) {
             const auction = metadata.dutch_auctions_active[0] as {
                 current_price: string;
+                end_time?: string | null;
             };
             return {
                 price: {
-                    amount: parseFloat(auction.current_price) / 1000000,
+                    amount: fromSmallestUnit(auction.current_price, chain),
                     currency: "XTZ",
                     symbol: "ꜩ",
                 },
@@ -731,6 +1746,7 @@ export class NFTService {
                 },
                 saleType: "dutch_auction",
                 openEditionInfo: undefined as undefined,
+                auctionInfo: { endTime: auction.end_time || undefined },
             };
         }
 
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { ObjktApiService } from "./objkt-api.service";
+
+/**
+ * Stubs fetch with an OBJKT GraphQL response and returns the variables of each request
+ */
+function mockGraphQL(data: unknown): Array<Record<string, unknown>> {
+    const requests: Array<Record<string, unknown>> = [];
+
+    spyOn(globalThis, "fetch").mockImplementation(((_url: unknown, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body)) as { variables: Record<string, unknown> };
+        requests.push(body.variables);
+        return Promise.resolve(new Response(JSON.stringify({ data })));
+    }) as typeof fetch);
+
+    return requests;
+}
+
+describe("ObjktApiService", () => {
+    afterEach(() => {
+        (globalThis.fetch as unknown as { mockRestore?: () => void }).mockRestore?.();
+    });
+
+    test("getHolderProfile matches aliases exactly, escaping LIKE wildcards", async () => {
+        const requests = mockGraphQL({ holder: [] });
+        const objktApi = new ObjktApiService();
+
+        await objktApi.getHolderProfile({ alias: "%" });
+        await objktApi.getHolderProfile({ alias: "a_c" });
+        await objktApi.getHolderProfile({ alias: "back\\slash" });
+
+        expect(requests.map((variables) => variables["where"])).toEqual([
+            { alias: { _ilike: "\\%" } },
+            { alias: { _ilike: "a\\_c" } },
+            { alias: { _ilike: "back\\\\slash" } },
+        ]);
+    });
+
+    test("searchCollections rate limits per query, not across users and commands", async () => {
+        mockGraphQL({ fa: [{ contract: "KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton", name: "hic et nunc" }] });
+        const objktApi = new ObjktApiService();
+
+        // Autocomplete keystrokes, then the command that submits the completed name
+        expect((await objktApi.searchCollections("hic")).success).toBe(true);
+        expect((await objktApi.searchCollections("hic et")).success).toBe(true);
+        expect((await objktApi.searchCollections("hic et nunc")).success).toBe(true);
+        expect((await objktApi.searchCollections("hic et nunc", 1)).success).toBe(true);
+
+        expect((await objktApi.searchCollections("hic")).success).toBe(false);
+    });
+
+    test("getCollectionEvents limits latest event lookups apart from reads past a cursor", async () => {
+        mockGraphQL({ event: [] });
+        const objktApi = new ObjktApiService();
+        const contract = "KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton";
+
+        // A feed poll, then a new feed for the same collection
+        expect((await objktApi.getCollectionEvents(contract, "100")).success).toBe(true);
+        expect((await objktApi.getCollectionEvents(contract, undefined, 1)).success).toBe(true);
+
+        expect((await objktApi.getCollectionEvents(contract, "100")).success).toBe(false);
+    });
+});
@@ -1,13 +1,28 @@
 import { config } from "../config";
 import { logger } from "../utils/logger";
-import type { ApiResponse } from "../types";
+import { FxHashApiService } from "./fxhash-api.service";
+import { FXHASH_GENTK_CONTRACTS } from "../marketplaces";
+import { parseChain } from "../utils/chain";
+import type { ApiResponse, Chain, FxHashGenerativeToken } from "../types";
+
+// OBJKT marketplace events reported by collection feeds
+export const COLLECTION_SALE_EVENTS = [
+    "list_buy",
+    "offer_accept",
+    "offer_floor_accept",
+    "english_auction_settle",
+    "dutch_auction_buy",
+];
+export const COLLECTION_LISTING_EVENTS = ["list_create"];
 
 export class ObjktApiService {
     private readonly baseUrl: string;
     private readonly rateLimit: Map<string, number> = new Map();
+    private readonly fxhashApi: FxHashApiService;
 
     constructor() {
         this.baseUrl = config.api.objktBaseUrl;
+        this.fxhashApi = new FxHashApiService();
     }
 
     /**
@@ -50,11 +65,23 @@ export class ObjktApiService {
         return response.json();
     }
 
+    /**
+     * Normalizes a contract address for OBJKT queries. Etherlink contracts are indexed lowercased.
+     */
+    private normalizeContract(contractAddress: string, chain: Chain): string {
+        return chain === "etherlink" ? contractAddress.toLowerCase() : contractAddress;
+    }
+
     /**
      * Gets comprehensive token data including all sales types
      */
-    public async getTokenMetadata(contractAddress: string, tokenId: string): Promise<ApiResponse<unknown>> {
-        const endpoint = `token/${contractAddress}_${tokenId}`;
+    public async getTokenMetadata(
+        contractAddress: string,
+        tokenId: string,
+        chain: Chain = "tezos"
+    ): Promise<ApiResponse<unknown>> {
+        const faContract = this.normalizeContract(contractAddress, chain);
+        const endpoint = `token/${faContract}_${tokenId}`;
 
         if (!this.checkRateLimit(endpoint)) {
             return {
@@ -64,7 +91,7 @@ export class ObjktApiService {
         }
 
         try {
-            logger.info(`Fetching comprehensive token data from OBJKT: ${contractAddress}/${tokenId}`);
+            logger.info(`Fetching comprehensive token data from OBJKT (${chain}): ${faContract}/${tokenId}`);
 
             const query = `
                 query GetToken($fa_contract: String!, $token_id: String!) {
@@ -165,7 +192,7 @@ export class ObjktApiService {
                 }
             `;
 
-            const variables = { fa_contract: contractAddress, token_id: tokenId };
+            const variables = { fa_contract: faContract, token_id: tokenId };
 
             logger.info(`OBJKT GraphQL Query: ${query.replace(/\s+/g, " ").trim()}`);
             logger.info(`OBJKT Variables: ${JSON.stringify(variables)}`);
@@ -200,6 +227,297 @@ export class ObjktApiService {
         }
     }
 
+    /**
+     * Gets a holder profile (alias, avatar, bio, socials and recent mints) by address, alias or .tez domain
+     * @param mintLimit Number of most recent mints to include
+     */
+    public async getHolderProfile(
+        identifier: {
+            address?: string | undefined;
+            alias?: string | undefined;
+            domain?: string | undefined;
+        },
+        mintLimit = 5
+    ): Promise<ApiResponse<unknown>> {
+        const lookup = identifier.address || identifier.domain || identifier.alias || "";
+        const endpoint = `holder/${lookup.toLowerCase()}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching holder profile from OBJKT: ${lookup}`);
+
+            const query = `
+                query GetHolder($where: holder_bool_exp!, $mintLimit: Int!) {
+                    holder(where: $where, limit: 1) {
+                        address
+                        alias
+                        logo
+                        description
+                        website
+                        twitter
+                        instagram
+                        discord
+                        tzdomain
+                        created_tokens(limit: $mintLimit, order_by: { token: { timestamp: desc } }) {
+                            token {
+                                token_id
+                                fa_contract
+                                name
+                                display_uri
+                                thumbnail_uri
+                                timestamp
+                                lowest_ask
+                            }
+                        }
+                    }
+                }
+            `;
+
+            let where: Record<string, unknown>;
+            if (identifier.address) {
+                where = { address: { _eq: identifier.address } };
+            } else if (identifier.domain) {
+                where = { tzdomain: { _eq: identifier.domain.toLowerCase() } };
+            } else {
+                // Case-insensitive exact match, so LIKE wildcards in the alias are escaped
+                where = { alias: { _ilike: identifier.alias?.replace(/[%_\\]/g, "\\$&") } };
+            }
+
+            const variables = { where, mintLimit };
+
+            logger.info(`OBJKT Holder Variables: ${JSON.stringify(variables)}`);
+
+            const data = (await this.makeGraphQLRequest(query, variables)) as { data?: { holder?: unknown[] } };
+
+            if (!data.data?.holder || data.data.holder.length === 0) {
+                return {
+                    success: false,
+                    error: "Holder not found",
+                };
+            }
+
+            return {
+                success: true,
+                data: data.data.holder[0],
+            };
+        } catch (error) {
+            logger.error("Error fetching holder profile from OBJKT:", error);
+            return {
+                success: false,
+                error: `Failed to fetch holder profile: ${error}`,
+            };
+        }
+    }
+
+    /**
+     * Gets the marketplace sales of a token: listing purchases plus offer, auction and other sale events
+     */
+    public async getTokenSales(contractAddress: string, tokenId: string, limit = 50): Promise<ApiResponse<unknown>> {
+        const endpoint = `sales/${contractAddress}_${tokenId}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching sales of ${contractAddress}/${tokenId} from OBJKT`);
+
+            const query = `
+                query GetTokenSales($fa_contract: String!, $token_id: String!, $limit: Int!) {
+                    listing_sale(
+                        where: { token: { fa_contract: { _eq: $fa_contract }, token_id: { _eq: $token_id } } }
+                        order_by: { timestamp: desc }
+                        limit: $limit
+                    ) {
+                        amount
+                        price_xtz
+                        timestamp
+                        level
+                        ophash
+                        seller {
+                            address
+                            alias
+                        }
+                        buyer {
+                            address
+                            alias
+                        }
+                        marketplace {
+                            name
+                        }
+                    }
+                    event(
+                        where: {
+                            fa_contract: { _eq: $fa_contract }
+                            token: { token_id: { _eq: $token_id } }
+                            marketplace_event_type: { _is_null: false }
+                            price_xtz: { _gt: 0 }
+                        }
+                        order_by: { timestamp: desc }
+                        limit: $limit
+                    ) {
+                        marketplace_event_type
+                        amount
+                        price_xtz
+                        timestamp
+                        level
+                        ophash
+                        creator {
+                            address
+                            alias
+                        }
+                        recipient {
+                            address
+                            alias
+                        }
+                        marketplace {
+                            name
+                        }
+                    }
+                }
+            `;
+
+            const variables = { fa_contract: contractAddress, token_id: tokenId, limit };
+            const response = (await this.makeGraphQLRequest(query, variables)) as {
+                data?: { listing_sale?: unknown[]; event?: unknown[] };
+            };
+
+            return {
+                success: true,
+                data: {
+                    listingSales: response.data?.listing_sale || [],
+                    events: response.data?.event || [],
+                },
+            };
+        } catch (error) {
+            logger.error(`Failed to fetch sales for ${contractAddress}/${tokenId}:`, error);
+            return {
+                success: false,
+                error: `Failed to fetch token sales: ${error}`,
+            };
+        }
+    }
+
+    /**
+     * Gets a collection's marketplace sales and new listings
+     * @param afterId Only events with a higher ID, oldest first. When omitted the most recent events are
+     * returned, newest first.
+     * @param limit Maximum number of events
+     */
+    public async getCollectionEvents(
+        contractAddress: string,
+        afterId?: string,
+        limit = 25
+    ): Promise<ApiResponse<unknown[]>> {
+        // Keyed apart from reads past a cursor, so looking up the latest event doesn't collide with feed polls
+        const endpoint = afterId ? `events/${contractAddress}` : `events/${contractAddress}/latest`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.debug(`Fetching events of ${contractAddress} after ${afterId ?? "latest"} from OBJKT`);
+
+            const query = `
+                query GetCollectionEvents(
+                    $fa_contract: String!
+                    $after_id: bigint!
+                    $order: order_by!
+                    $limit: Int!
+                    $event_types: [marketplace_event_type!]!
+                ) {
+                    event(
+                        where: {
+                            fa_contract: { _eq: $fa_contract }
+                            id: { _gt: $after_id }
+                            marketplace_event_type: { _in: $event_types }
+                        }
+                        order_by: { id: $order }
+                        limit: $limit
+                    ) {
+                        id
+                        marketplace_event_type
+                        amount
+                        price_xtz
+                        timestamp
+                        ophash
+                        creator {
+                            address
+                            alias
+                        }
+                        recipient {
+                            address
+                            alias
+                        }
+                        marketplace {
+                            name
+                        }
+                        ask {
+                            seller {
+                                address
+                                alias
+                            }
+                        }
+                        english_auction {
+                            seller {
+                                address
+                                alias
+                            }
+                        }
+                        dutch_auction {
+                            seller {
+                                address
+                                alias
+                            }
+                        }
+                        token {
+                            token_id
+                            name
+                            display_uri
+                            thumbnail_uri
+                        }
+                        fa {
+                            name
+                        }
+                    }
+                }
+            `;
+
+            const variables = {
+                fa_contract: contractAddress,
+                after_id: afterId ?? "0",
+                order: afterId ? "asc" : "desc",
+                limit,
+                event_types: [...COLLECTION_SALE_EVENTS, ...COLLECTION_LISTING_EVENTS],
+            };
+            const response = (await this.makeGraphQLRequest(query, variables)) as { data?: { event?: unknown[] } };
+
+            return {
+                success: true,
+                data: response.data?.event || [],
+            };
+        } catch (error) {
+            logger.error(`Failed to fetch events for ${contractAddress}:`, error);
+            return {
+                success: false,
+                error: `Failed to fetch collection events: ${error}`,
+            };
+        }
+    }
+
     /**
      * Resolves a marketplace path to actual contract address
      */
@@ -282,8 +600,8 @@ export class ObjktApiService {
     /**
      * Fetches collection information from OBJKT API
      */
-    public async getCollectionInfo(contractAddress: string): Promise<ApiResponse<unknown>> {
-        const endpoint = "collection";
+    public async getCollectionInfo(contractAddress: string, chain: Chain = "tezos"): Promise<ApiResponse<unknown>> {
+        const endpoint = `collection/${contractAddress.toLowerCase()}`;
         if (!this.checkRateLimit(endpoint)) {
             logger.warn("Rate limit exceeded for OBJKT API - collection info");
             return {
@@ -316,7 +634,7 @@ export class ObjktApiService {
                 }
             `;
 
-            const variables = { contract: contractAddress };
+            const variables = { contract: this.normalizeContract(contractAddress, chain) };
 
             logger.info(`OBJKT Collection Query: ${query.replace(/\s+/g, " ").trim()}`);
             logger.info(`OBJKT Variables: ${JSON.stringify(variables)}`);
@@ -345,6 +663,62 @@ export class ObjktApiService {
         }
     }
 
+    /**
+     * Searches OBJKT collections by name, most traded first
+     * @param query Part of the collection name
+     * @param limit Maximum number of results (Discord autocomplete shows up to 25)
+     */
+    public async searchCollections(
+        query: string,
+        limit = 25
+    ): Promise<ApiResponse<Array<{ contract: string; name: string }>>> {
+        // Keyed per query, so autocomplete keystrokes don't block each other or the command they complete
+        const endpoint = `collection-search/${query.toLowerCase()}:${limit}`;
+        if (!this.checkRateLimit(endpoint)) {
+            logger.warn("Rate limit exceeded for OBJKT API - collection search");
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.debug(`Searching OBJKT collections for: ${query}`);
+
+            const gqlQuery = `
+                query SearchCollections($name: String!, $limit: Int!) {
+                    fa(
+                        where: { name: { _ilike: $name } }
+                        order_by: { volume_total: desc_nulls_last }
+                        limit: $limit
+                    ) {
+                        contract
+                        name
+                    }
+                }
+            `;
+
+            // Escape LIKE wildcards typed by the user
+            const variables = { name: `%${query.replace(/[%_\\]/g, "\\$&")}%`, limit };
+            const response = (await this.makeGraphQLRequest(gqlQuery, variables)) as {
+                data?: { fa?: Array<{ contract: string; name: string | null }> };
+            };
+
+            return {
+                success: true,
+                data: (response.data?.fa || [])
+                    .filter((fa) => fa.name)
+                    .map((fa) => ({ contract: fa.contract, name: fa.name || fa.contract })),
+            };
+        } catch (error) {
+            logger.error(`Failed to search collections for ${query}:`, error);
+            return {
+                success: false,
+                error: `Failed to search collections: ${error}`,
+            };
+        }
+    }
+
     /**
      * Fetches collection information by project ID (for fxhash and similar platforms)
      */
@@ -361,8 +735,18 @@ export class ObjktApiService {
         try {
             logger.info(`Fetching collection info from OBJKT by project: ${platform}/${projectId}`);
 
-            // For fxhash projects, try to get tokens from the project to build collection data
+            // For fxhash projects, prefer the fx(hash) API and fall back to the project tokens indexed by OBJKT
             if (platform === "fxhash") {
+                const generativeResult = await this.fxhashApi.getGenerativeToken(projectId);
+
+                if (generativeResult.success && generativeResult.data) {
+                    return {
+                        success: true,
+                        data: this.buildCollectionFromGenerativeToken(generativeResult.data),
+                    };
+                }
+
+                logger.warn(`fx(hash) API lookup failed for project ${projectId}, falling back to OBJKT gallery`);
                 return await this.getProjectTokensAsCollection(projectId);
             }
 
@@ -442,6 +826,43 @@ export class ObjktApiService {
         }
     }
 
+    /**
+     * Builds collection-like data from an fx(hash) generative token
+     */
+    private buildCollectionFromGenerativeToken(project: FxHashGenerativeToken): Record<string, unknown> {
+        // The gentk version of any iteration tells which gentk contract the project mints on
+        const version = project.objkts?.[0]?.version ?? project.objkts?.[0]?.id.match(/^FX(\d+)-/)?.[1];
+        const mintPrice = project.pricingFixed?.price ?? project.pricingDutchAuction?.restingPrice ?? undefined;
+        const chain = parseChain(project.chain) || "tezos";
+        const isTezos = chain === "tezos";
+
+        return {
+            contract: isTezos && version !== undefined ? FXHASH_GENTK_CONTRACTS[String(version)] : undefined,
+            chain,
+            name: project.name,
+            description: project.metadata?.description,
+            logo: project.thumbnailUri || project.displayUri || undefined,
+            collection_type: "generative",
+            path: "fxhash",
+            items: project.supply - project.balance,
+            editions: project.supply,
+            // Market data is only reported in tez for Tezos projects
+            floor_price: isTezos ? project.marketStats?.floor ?? undefined : undefined,
+            volume_24h: isTezos ? project.marketStats?.secVolumeTz24 ?? undefined : undefined,
+            volume_total: isTezos ? project.marketStats?.secVolumeTz ?? undefined : undefined,
+            twitter: "fx_hash_",
+            website: `https://www.fxhash.xyz/generative/${project.id}`,
+            verified_creators: project.author ? [project.author.id] : undefined,
+            mint_progress: {
+                minted: project.supply - project.balance,
+                total: project.supply,
+                price: isTezos ? mintPrice : undefined,
+            },
+            project_id: String(project.id),
+            published_at: project.createdAt,
+        };
+    }
+
     /**
      * Gets tokens from a fxhash project and builds collection-like data
      */
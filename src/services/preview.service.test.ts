@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { PreviewService } from "./preview.service";
+import { NFTService } from "./nft.service";
+import { EmbedGeneratorService } from "./embed-generator.service";
+import type { PreviewResults, TezosNFT } from "../types";
+
+const CONTRACT = "KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton";
+
+function createToken(id: string, overrides: Partial<TezosNFT> = {}): TezosNFT {
+    return {
+        id,
+        contractAddress: CONTRACT,
+        name: `Token ${id}`,
+        creator: { address: "tz1burnburnburnburnburnburnburjAYjjX" },
+        marketplace: { name: "OBJKT", url: `https://objkt.com/tokens/${CONTRACT}/${id}` },
+        ...overrides,
+    };
+}
+
+function createResults(nfts: TezosNFT[]): PreviewResults {
+    return { nfts, collections: [], profiles: [], operations: [] };
+}
+
+function customIds(previewService: PreviewService, results: PreviewResults): string[] {
+    return previewService
+        .createPreviewComponents(results)
+        .flatMap((row) => row.components.map((button) => (button.toJSON() as { custom_id: string }).custom_id));
+}
+
+describe("PreviewService", () => {
+    const previewService = new PreviewService(new NFTService(), new EmbedGeneratorService());
+
+    test("builds buttons once per token, even when a token is linked twice", () => {
+        const endTime = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+        const auction = createToken("2", { saleType: "english_auction", auctionInfo: { endTime } });
+
+        expect(
+            customIds(previewService, createResults([createToken("1"), auction, createToken("1"), auction]))
+        ).toEqual([`history:${CONTRACT}:1`, `history:${CONTRACT}:2`, `reminders:${CONTRACT}:2`]);
+    });
+
+    test("builds buttons only for tokens whose embeds fit in the message", () => {
+        const tokens = Array.from({ length: 12 }, (_, index) => createToken(String(index + 1)));
+        const results = createResults(tokens);
+
+        expect(previewService.createPreviewEmbeds(results)).toHaveLength(10);
+        expect(customIds(previewService, results)).toEqual(
+            tokens.slice(0, 10).map((token) => `history:${CONTRACT}:${token.id}`)
+        );
+    });
+});
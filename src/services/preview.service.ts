@@ -0,0 +1,135 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, type EmbedBuilder } from "discord.js";
+import { NFTService } from "./nft.service";
+import { EmbedGeneratorService } from "./embed-generator.service";
+import { logger } from "../utils/logger";
+import type { IgnoredContext, PreviewResults, TezosNFT } from "../types";
+
+// Discord allows up to 10 embeds per message, and 5 rows of 5 buttons
+const MAX_EMBEDS_PER_MESSAGE = 10;
+const MAX_BUTTONS_PER_ROW = 5;
+const MAX_ROWS_PER_MESSAGE = 5;
+
+export class PreviewService {
+    private readonly nftService: NFTService;
+    private readonly embedService: EmbedGeneratorService;
+
+    constructor(nftService: NFTService, embedService: EmbedGeneratorService) {
+        this.nftService = nftService;
+        this.embedService = embedService;
+    }
+
+    /**
+     * Detects and fetches every previewable NFT, collection, profile and operation in a piece of text
+     * @param content The text to scan (message content or a command option)
+     * @param ignoredContexts Markdown regions whose links are skipped
+     */
+    public async fetchPreviews(content: string, ignoredContexts?: IgnoredContext[]): Promise<PreviewResults> {
+        const nftResult = await this.nftService.processMessage(content, ignoredContexts);
+        const collectionResult = await this.nftService.processCollections(content, ignoredContexts);
+        const profileResult = await this.nftService.processProfiles(content, ignoredContexts);
+        const operationResult = await this.nftService.processOperations(content, ignoredContexts);
+
+        return {
+            nfts: (nftResult.success && nftResult.data) || [],
+            collections: (collectionResult.success && collectionResult.data) || [],
+            profiles: (profileResult.success && profileResult.data) || [],
+            operations: (operationResult.success && operationResult.data) || [],
+        };
+    }
+
+    /**
+     * Returns the total number of previews found
+     */
+    public countPreviews(results: PreviewResults): number {
+        return results.nfts.length + results.collections.length + results.profiles.length + results.operations.length;
+    }
+
+    /**
+     * Builds the preview embeds for fetched results, skipping invalid ones
+     */
+    public createPreviewEmbeds(results: PreviewResults): EmbedBuilder[] {
+        return this.renderPreviews(results).map(({ embed }) => embed);
+    }
+
+    /**
+     * Builds the action buttons shown under previews: a History button per rendered Tezos token, plus a
+     * Remind me button for running auctions
+     */
+    public createPreviewComponents(results: PreviewResults): ActionRowBuilder<ButtonBuilder>[] {
+        const tokens = new Map<string, TezosNFT>();
+
+        for (const { nft } of this.renderPreviews(results)) {
+            if (nft?.contractAddress && (!nft.chain || nft.chain === "tezos")) {
+                // Duplicate custom IDs make Discord reject the whole message
+                tokens.set(`${nft.contractAddress}:${nft.id}`, nft);
+            }
+        }
+
+        // With several tokens each label names its token
+        const label = (text: string, name: string): string => `${text}: ${name}`.substring(0, 80);
+
+        const buttons = Array.from(tokens)
+            .flatMap(([tokenKey, nft]) => {
+                const tokenButtons = [
+                    new ButtonBuilder()
+                        .setCustomId(`history:${tokenKey}`)
+                        .setLabel(tokens.size > 1 ? label("History", nft.name) : "📜 History")
+                        .setStyle(ButtonStyle.Secondary),
+                ];
+
+                const endTime = nft.auctionInfo?.endTime;
+                const isAuction = nft.saleType === "english_auction" || nft.saleType === "dutch_auction";
+                if (isAuction && endTime && new Date(endTime).getTime() > Date.now()) {
+                    tokenButtons.push(
+                        new ButtonBuilder()
+                            .setCustomId(`reminders:${tokenKey}`)
+                            .setLabel(tokens.size > 1 ? label("Remind me", nft.name) : "⏰ Remind me")
+                            .setStyle(ButtonStyle.Secondary)
+                    );
+                }
+
+                return tokenButtons;
+            })
+            .slice(0, MAX_BUTTONS_PER_ROW * MAX_ROWS_PER_MESSAGE);
+
+        const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+        for (let i = 0; i < buttons.length; i += MAX_BUTTONS_PER_ROW) {
+            rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(buttons.slice(i, i + MAX_BUTTONS_PER_ROW)));
+        }
+
+        return rows;
+    }
+
+    /**
+     * Builds and validates the embeds that fit in one message, keeping the token behind each NFT embed
+     */
+    private renderPreviews(results: PreviewResults): Array<{ embed: EmbedBuilder; nft?: TezosNFT }> {
+        const candidates: Array<{ kind: string; embed: EmbedBuilder; nft?: TezosNFT }> = [
+            ...results.nfts.map((nft) => ({ kind: "NFT", embed: this.embedService.createNFTEmbed(nft), nft })),
+            ...results.collections.map((collection) => ({
+                kind: "collection",
+                embed: this.embedService.createCollectionEmbed(collection),
+            })),
+            ...results.profiles.map((profile) => ({
+                kind: "profile",
+                embed: this.embedService.createProfileEmbed(profile),
+            })),
+            ...results.operations.map((operation) => ({
+                kind: "operation",
+                embed: this.embedService.createOperationEmbed(operation),
+            })),
+        ];
+
+        const rendered: Array<{ embed: EmbedBuilder; nft?: TezosNFT }> = [];
+
+        for (const { kind, embed, nft } of candidates) {
+            if (this.embedService.validateEmbed(embed)) {
+                rendered.push(nft ? { embed, nft } : { embed });
+            } else {
+                logger.warn(`Invalid ${kind} embed generated, skipping`);
+            }
+        }
+
+        return rendered.slice(0, MAX_EMBEDS_PER_MESSAGE);
+    }
+}
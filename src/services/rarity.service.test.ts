@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { RarityService } from "./rarity.service";
+import { TzktApiService } from "./tzkt-api.service";
+
+const CONTRACT = "KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton";
+
+describe("RarityService", () => {
+    afterEach(() => {
+        (TzktApiService.prototype.getCollectionAttributes as unknown as { mockRestore: () => void }).mockRestore();
+    });
+
+    test("ranks tokens by the rarity of their trait values", async () => {
+        spyOn(TzktApiService.prototype, "getCollectionAttributes").mockResolvedValue({
+            success: true,
+            data: [
+                { tokenId: "1", attributes: [{ name: "Background", value: "Gold" }] },
+                { tokenId: "2", attributes: [{ name: "Background", value: "Blue" }] },
+                { tokenId: "3", attributes: [{ name: "Background", value: "Blue" }] },
+            ],
+        });
+
+        const rarity = await new RarityService().getTokenRarity(CONTRACT, "1");
+
+        expect(rarity.data?.rank).toBe(1);
+        expect(rarity.data?.total).toBe(3);
+        expect(rarity.data?.traits[0]).toMatchObject({ trait_type: "Background", value: "Gold", count: 1 });
+    });
+
+    test("scans a collection once for concurrent tokens of it", async () => {
+        const getCollectionAttributes = spyOn(TzktApiService.prototype, "getCollectionAttributes").mockResolvedValue({
+            success: true,
+            data: [
+                { tokenId: "1", attributes: [{ name: "Eyes", value: "Red" }] },
+                { tokenId: "2", attributes: [{ name: "Eyes", value: "Green" }] },
+            ],
+        });
+        const rarityService = new RarityService();
+
+        const [first, second] = await Promise.all([
+            rarityService.getTokenRarity(CONTRACT, "1"),
+            rarityService.getTokenRarity(CONTRACT, "2"),
+        ]);
+
+        expect(first.success).toBe(true);
+        expect(second.success).toBe(true);
+        expect(getCollectionAttributes).toHaveBeenCalledTimes(1);
+    });
+});
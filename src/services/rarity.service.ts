@@ -0,0 +1,260 @@
+import { TzktApiService } from "./tzkt-api.service";
+import { FxHashApiService } from "./fxhash-api.service";
+import { FXHASH_GENTK_CONTRACTS } from "../marketplaces";
+import { logger } from "../utils/logger";
+import { TtlCache } from "../utils/ttl-cache";
+import type { ApiResponse, TokenRarity } from "../types";
+
+// Collections are scanned once and kept for an hour, trait frequencies barely move after mint-out
+const RARITY_CACHE_TTL = 60 * 60 * 1000;
+
+// Each index holds up to RARITY_MAX_TOKENS tokens, only the most recently scanned collections are kept
+const RARITY_CACHE_MAX_COLLECTIONS = 25;
+
+// Larger collections are not scored
+export const RARITY_MAX_TOKENS = 10000;
+
+// Value used for a trait a token doesn't have, so missing traits count towards rarity too
+const MISSING_TRAIT = "None";
+
+interface TokenTraits {
+    tokenId: string;
+    traits: Map<string, string | number>;
+}
+
+interface RarityIndex {
+    // Trait type -> value -> number of tokens
+    traitCounts: Map<string, Map<string | number, number>>;
+    tokens: Map<string, { rank: number; score: number; traits: Map<string, string | number> }>;
+}
+
+export class RarityService {
+    private readonly tzktApi: TzktApiService;
+    private readonly fxhashApi: FxHashApiService;
+    private readonly cache = new TtlCache<RarityIndex>(RARITY_CACHE_TTL, RARITY_CACHE_MAX_COLLECTIONS);
+    // Scans in progress, so concurrent previews of one collection share a single scan
+    private readonly pending = new Map<string, Promise<ApiResponse<RarityIndex>>>();
+
+    constructor() {
+        this.tzktApi = new TzktApiService();
+        this.fxhashApi = new FxHashApiService();
+    }
+
+    /**
+     * Gets a token's rarity rank and per-trait frequencies within its collection
+     * @param contractAddress The token contract
+     * @param tokenId The on-chain token id
+     * @param projectId The fx(hash) project, required for gentks since all projects share the gentk contracts
+     */
+    public async getTokenRarity(
+        contractAddress: string,
+        tokenId: string,
+        projectId?: string
+    ): Promise<ApiResponse<TokenRarity>> {
+        const isGentk = Object.values(FXHASH_GENTK_CONTRACTS).includes(contractAddress);
+
+        if (isGentk && !projectId) {
+            return {
+                success: false,
+                error: "Rarity for fx(hash) tokens needs the project id",
+            };
+        }
+
+        const cacheKey = isGentk ? `fxhash:${projectId}` : contractAddress;
+        const index = await this.getIndex(cacheKey, () =>
+            isGentk && projectId ? this.loadProjectTraits(projectId) : this.loadContractTraits(contractAddress)
+        );
+
+        if (!index.success || !index.data) {
+            return {
+                success: false,
+                error: index.error || "Failed to compute rarity",
+            };
+        }
+
+        const token = index.data.tokens.get(tokenId);
+        if (!token) {
+            return {
+                success: false,
+                error: "Token has no trait data",
+            };
+        }
+
+        const total = index.data.tokens.size;
+
+        return {
+            success: true,
+            data: {
+                rank: token.rank,
+                total,
+                score: token.score,
+                traits: Array.from(token.traits.entries())
+                    .filter(([, value]) => value !== MISSING_TRAIT)
+                    .map(([traitType, value]) => {
+                        const count = index.data?.traitCounts.get(traitType)?.get(value) || 0;
+                        return {
+                            trait_type: traitType,
+                            value,
+                            count,
+                            percentage: (count / total) * 100,
+                        };
+                    })
+                    .sort((a, b) => a.count - b.count),
+            },
+        };
+    }
+
+    /**
+     * Returns the cached rarity index for a collection, building it when missing or expired
+     */
+    private async getIndex(
+        cacheKey: string,
+        load: () => Promise<ApiResponse<TokenTraits[]>>
+    ): Promise<ApiResponse<RarityIndex>> {
+        const cached = this.cache.get(cacheKey);
+        if (cached) {
+            return {
+                success: true,
+                data: cached,
+            };
+        }
+
+        let pending = this.pending.get(cacheKey);
+        if (!pending) {
+            pending = this.loadIndex(cacheKey, load).finally(() => this.pending.delete(cacheKey));
+            this.pending.set(cacheKey, pending);
+        }
+
+        return pending;
+    }
+
+    /**
+     * Loads a collection's traits and caches its rarity index
+     */
+    private async loadIndex(
+        cacheKey: string,
+        load: () => Promise<ApiResponse<TokenTraits[]>>
+    ): Promise<ApiResponse<RarityIndex>> {
+        const tokensResult = await load();
+        if (!tokensResult.success || !tokensResult.data) {
+            return {
+                success: false,
+                error: tokensResult.error || "Failed to load collection traits",
+            };
+        }
+
+        logger.info(`Computing rarity for ${cacheKey} (${tokensResult.data.length} tokens)`);
+
+        const index = this.buildIndex(tokensResult.data);
+        this.cache.set(cacheKey, index);
+
+        return {
+            success: true,
+            data: index,
+        };
+    }
+
+    /**
+     * Scores every token as the sum of 1 / frequency of each of its trait values, and ranks them
+     */
+    private buildIndex(tokens: TokenTraits[]): RarityIndex {
+        const traitTypes = new Set(tokens.flatMap((token) => Array.from(token.traits.keys())));
+
+        // Fill in missing traits so "doesn't have X" is scored like any other value
+        for (const token of tokens) {
+            for (const traitType of traitTypes) {
+                if (!token.traits.has(traitType)) {
+                    token.traits.set(traitType, MISSING_TRAIT);
+                }
+            }
+        }
+
+        const traitCounts = new Map<string, Map<string | number, number>>();
+        for (const token of tokens) {
+            for (const [traitType, value] of token.traits) {
+                const valueCounts = traitCounts.get(traitType) || new Map<string | number, number>();
+                valueCounts.set(value, (valueCounts.get(value) || 0) + 1);
+                traitCounts.set(traitType, valueCounts);
+            }
+        }
+
+        const scored = tokens
+            .map((token) => ({
+                tokenId: token.tokenId,
+                traits: token.traits,
+                score: Array.from(token.traits.entries()).reduce(
+                    (score, [traitType, value]) =>
+                        score + tokens.length / (traitCounts.get(traitType)?.get(value) || tokens.length),
+                    0
+                ),
+            }))
+            .sort((a, b) => b.score - a.score);
+
+        return {
+            traitCounts,
+            tokens: new Map(
+                scored.map((token, index) => [
+                    token.tokenId,
+                    { rank: index + 1, score: token.score, traits: token.traits },
+                ])
+            ),
+        };
+    }
+
+    /**
+     * Loads the traits of every token of a contract from TZKT metadata
+     */
+    private async loadContractTraits(contractAddress: string): Promise<ApiResponse<TokenTraits[]>> {
+        const result = await this.tzktApi.getCollectionAttributes(contractAddress, RARITY_MAX_TOKENS);
+
+        if (!result.success || !result.data) {
+            return {
+                success: false,
+                error: result.error || "Failed to fetch collection attributes",
+            };
+        }
+
+        return {
+            success: true,
+            data: result.data.map((token) => ({
+                tokenId: token.tokenId,
+                traits: new Map(
+                    (token.attributes || [])
+                        .filter((attribute) => attribute.name || attribute.trait_type)
+                        .map((attribute) => [
+                            String(attribute.name || attribute.trait_type),
+                            typeof attribute.value === "boolean" ? String(attribute.value) : attribute.value,
+                        ])
+                ),
+            })),
+        };
+    }
+
+    /**
+     * Loads the features of every iteration of an fx(hash) project
+     */
+    private async loadProjectTraits(projectId: string): Promise<ApiResponse<TokenTraits[]>> {
+        const result = await this.fxhashApi.getProjectFeatures(projectId, RARITY_MAX_TOKENS);
+
+        if (!result.success || !result.data) {
+            return {
+                success: false,
+                error: result.error || "Failed to fetch project features",
+            };
+        }
+
+        return {
+            success: true,
+            data: result.data.map((gentk) => ({
+                // Gentk ids look like FX<version>-<token id>, previews use the on-chain token id
+                tokenId: gentk.id.replace(/^FX\d+-/, ""),
+                traits: new Map(
+                    (gentk.features || []).map((feature) => [
+                        feature.name,
+                        typeof feature.value === "boolean" ? String(feature.value) : feature.value,
+                    ])
+                ),
+            })),
+        };
+    }
+}
@@ -0,0 +1,273 @@
+import type { Client } from "discord.js";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { JsonStore } from "../utils/json-store";
+import { TtlCache } from "../utils/ttl-cache";
+import { ObjktApiService } from "./objkt-api.service";
+import type { NFTService } from "./nft.service";
+import type { EmbedGeneratorService } from "./embed-generator.service";
+import type { ApiResponse, AuctionReminder, TezosNFT } from "../types";
+
+interface ReminderState {
+    reminders: AuctionReminder[];
+    nextId: number;
+}
+
+const MAX_REMINDERS_PER_USER = 25;
+
+// Auction states are shared for a minute by reminders of one token and clicks on the same Remind me button
+const AUCTION_CACHE_TTL = 60 * 1000;
+const AUCTION_CACHE_MAX_TOKENS = 100;
+
+// setTimeout fires immediately for delays above ~24.8 days, longer waits are split
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Sends users a DM shortly before an auction they asked to be reminded of ends
+ */
+export class ReminderService {
+    private readonly client: Client;
+    private readonly nftService: NFTService;
+    private readonly embedService: EmbedGeneratorService;
+    private readonly objktApi: ObjktApiService;
+    private readonly auctions = new TtlCache<Promise<ApiResponse<TezosNFT>>>(
+        AUCTION_CACHE_TTL,
+        AUCTION_CACHE_MAX_TOKENS
+    );
+    private readonly store = new JsonStore<ReminderState>("reminders.json", { reminders: [], nextId: 1 });
+    private readonly state: ReminderState;
+    private readonly timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+    constructor(client: Client, nftService: NFTService, embedService: EmbedGeneratorService) {
+        this.client = client;
+        this.nftService = nftService;
+        this.embedService = embedService;
+        this.objktApi = new ObjktApiService();
+        this.state = this.store.load();
+    }
+
+    /**
+     * Schedules the persisted reminders, reminders that came due while the bot was offline are sent right away
+     */
+    public start(): void {
+        this.state.reminders.forEach((reminder) => this.schedule(reminder));
+        logger.info(`⏰ Scheduled ${this.state.reminders.length} auction reminder(s)`);
+    }
+
+    /**
+     * Cancels all timers, the reminders stay persisted
+     */
+    public stop(): void {
+        this.timers.forEach((timer) => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    /**
+     * Returns a user's reminders, soonest first
+     */
+    public getReminders(userId: string): AuctionReminder[] {
+        return this.state.reminders
+            .filter((reminder) => reminder.userId === userId)
+            .sort((a, b) => a.remindAt.localeCompare(b.remindAt));
+    }
+
+    /**
+     * Reminds a user of an auction's end. Asking again for the same token replaces the earlier reminder.
+     */
+    public async createReminder(
+        userId: string,
+        contract: string,
+        tokenId: string
+    ): Promise<ApiResponse<AuctionReminder>> {
+        // Fetch the auction again, late bids may have extended it since the preview was posted
+        const auctionResult = await this.getAuction(contract, tokenId);
+        const nft = auctionResult.data;
+
+        if (!auctionResult.success || !nft) {
+            return {
+                success: false,
+                error: auctionResult.error || "Failed to fetch token",
+            };
+        }
+
+        const endTime = nft.auctionInfo?.endTime;
+
+        if (!nft.contractAddress || !endTime || !this.isAuction(nft)) {
+            return {
+                success: false,
+                error: "This token has no running auction with an end time.",
+            };
+        }
+
+        const end = new Date(endTime).getTime();
+        if (end <= Date.now()) {
+            return {
+                success: false,
+                error: "This auction has already ended.",
+            };
+        }
+
+        const existing = this.state.reminders.find(
+            (reminder) =>
+                reminder.userId === userId && reminder.contract === nft.contractAddress && reminder.tokenId === nft.id
+        );
+
+        if (!existing && this.getReminders(userId).length >= MAX_REMINDERS_PER_USER) {
+            return {
+                success: false,
+                error: `You already have ${MAX_REMINDERS_PER_USER} reminders, cancel one first.`,
+            };
+        }
+
+        const reminder: AuctionReminder = {
+            id: existing?.id ?? this.state.nextId++,
+            userId,
+            contract: nft.contractAddress,
+            tokenId: nft.id,
+            tokenName: nft.name,
+            endTime,
+            remindAt: this.getRemindAt(endTime),
+            url: nft.marketplace.url,
+            createdAt: existing?.createdAt || new Date().toISOString(),
+        };
+
+        this.state.reminders = this.state.reminders.filter((entry) => entry !== existing);
+        this.state.reminders.push(reminder);
+        await this.store.save(this.state);
+        this.schedule(reminder);
+
+        logger.info(`⏰ Reminder #${reminder.id} for ${reminder.contract}/${reminder.tokenId} at ${reminder.remindAt}`);
+        return { success: true, data: reminder };
+    }
+
+    /**
+     * Cancels one of a user's reminders
+     * @returns The cancelled reminder, undefined when the user has no reminder with this ID
+     */
+    public async cancelReminder(userId: string, id: number): Promise<AuctionReminder | undefined> {
+        const reminder = this.state.reminders.find((entry) => entry.userId === userId && entry.id === id);
+        if (!reminder) {
+            return undefined;
+        }
+
+        await this.remove(reminder);
+        return reminder;
+    }
+
+    /**
+     * Sets a reminder's timer, replacing any earlier timer for it
+     */
+    private schedule(reminder: AuctionReminder): void {
+        clearTimeout(this.timers.get(reminder.id));
+
+        const delay = Math.max(0, new Date(reminder.remindAt).getTime() - Date.now());
+        const timer = setTimeout(() => {
+            this.timers.delete(reminder.id);
+
+            if (delay > MAX_TIMER_DELAY) {
+                this.schedule(reminder);
+                return;
+            }
+
+            void this.fire(reminder).catch((error) => {
+                logger.error(`Failed to send reminder #${reminder.id}:`, error);
+            });
+        }, Math.min(delay, MAX_TIMER_DELAY));
+
+        this.timers.set(reminder.id, timer);
+    }
+
+    /**
+     * Re-checks the auction and DMs the user. Auctions extended by late bids are rescheduled instead.
+     */
+    private async fire(reminder: AuctionReminder): Promise<void> {
+        const nft = (await this.getAuction(reminder.contract, reminder.tokenId)).data;
+        const endTime = nft?.auctionInfo?.endTime;
+
+        if (nft && endTime && this.isAuction(nft) && new Date(endTime) > new Date(reminder.endTime)) {
+            reminder.endTime = endTime;
+            reminder.remindAt = this.getRemindAt(endTime);
+            await this.store.save(this.state);
+            this.schedule(reminder);
+
+            logger.info(`⏰ Reminder #${reminder.id} moved to ${reminder.remindAt}, the auction was extended`);
+            return;
+        }
+
+        // Skip auctions that were settled or cancelled early, and reminders overdue after downtime
+        const isRunning = (!nft || this.isAuction(nft)) && new Date(reminder.endTime).getTime() > Date.now();
+
+        if (isRunning) {
+            try {
+                const user = await this.client.users.fetch(reminder.userId);
+                const endsAt = Math.floor(new Date(reminder.endTime).getTime() / 1000);
+
+                await user.send({
+                    content: `⏰ The auction for **${reminder.tokenName}** ends <t:${endsAt}:R>: ${reminder.url}`,
+                    embeds: nft ? [this.embedService.createNFTEmbed(nft)] : [],
+                });
+            } catch (error) {
+                logger.warn(`Failed to DM reminder #${reminder.id} to ${reminder.userId}:`, error);
+            }
+        } else {
+            logger.info(`⏰ Skipping reminder #${reminder.id}, the auction is over`);
+        }
+
+        await this.remove(reminder);
+    }
+
+    /**
+     * Fetches a token's current sale state from OBJKT, sharing one request per token across reminders and clicks
+     */
+    private getAuction(contract: string, tokenId: string): Promise<ApiResponse<TezosNFT>> {
+        const tokenKey = `${contract}/${tokenId}`;
+        const cached = this.auctions.get(tokenKey);
+        if (cached) {
+            return cached;
+        }
+
+        const request = this.objktApi.getTokenMetadata(contract, tokenId).then((result): ApiResponse<TezosNFT> => {
+            const nft = result.data ? this.nftService.createObjktToken(result.data, contract, tokenId) : undefined;
+
+            if (!nft) {
+                // Only successful fetches are shared, the next reminder or click tries again
+                this.auctions.delete(tokenKey);
+                return {
+                    success: false,
+                    error: result.error || "Failed to fetch token",
+                };
+            }
+
+            return { success: true, data: nft };
+        });
+
+        this.auctions.set(tokenKey, request);
+        return request;
+    }
+
+    /**
+     * Deletes a reminder and its timer
+     */
+    private async remove(reminder: AuctionReminder): Promise<void> {
+        clearTimeout(this.timers.get(reminder.id));
+        this.timers.delete(reminder.id);
+
+        this.state.reminders = this.state.reminders.filter((entry) => entry.id !== reminder.id);
+        await this.store.save(this.state);
+    }
+
+    /**
+     * When to remind of an auction ending at endTime: the configured lead time before, or now if that passed
+     */
+    private getRemindAt(endTime: string): string {
+        const remindAt = new Date(endTime).getTime() - config.reminders.leadMinutes * 60 * 1000;
+        return new Date(Math.max(remindAt, Date.now())).toISOString();
+    }
+
+    /**
+     * Whether a token is in an English or Dutch auction
+     */
+    private isAuction(nft: TezosNFT): boolean {
+        return nft.saleType === "english_auction" || nft.saleType === "dutch_auction";
+    }
+}
@@ -0,0 +1,316 @@
+import type { Client, EmbedBuilder } from "discord.js";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { JsonStore } from "../utils/json-store";
+import { ObjktApiService, COLLECTION_SALE_EVENTS } from "./objkt-api.service";
+import type { EmbedGeneratorService } from "./embed-generator.service";
+import type { ApiResponse, CollectionSaleEvent, FeedSubscription } from "../types";
+
+// Type definition for OBJKT collection events
+interface ObjktCollectionEvent {
+    id: number | string;
+    marketplace_event_type: string;
+    amount?: number | null;
+    price_xtz?: number | null;
+    timestamp: string;
+    ophash?: string | null;
+    creator?: { address: string; alias?: string | null } | null;
+    recipient?: { address: string; alias?: string | null } | null;
+    marketplace?: { name?: string | null } | null;
+    // The sale's listing or auction, whose seller isn't the sender of buys
+    ask?: { seller?: { address: string; alias?: string | null } | null } | null;
+    english_auction?: { seller?: { address: string; alias?: string | null } | null } | null;
+    dutch_auction?: { seller?: { address: string; alias?: string | null } | null } | null;
+    token?: {
+        token_id: string;
+        name?: string | null;
+        display_uri?: string | null;
+        thumbnail_uri?: string | null;
+    } | null;
+    fa?: { name?: string | null } | null;
+}
+
+interface FeedState {
+    subscriptions: FeedSubscription[];
+    // Last posted OBJKT event ID per contract
+    cursors: Record<string, string>;
+}
+
+const MAX_FEEDS_PER_GUILD = 10;
+
+// Events fetched per contract and poll, a backlog is worked off over the following polls
+const EVENTS_PER_POLL = 25;
+
+// Discord allows 10 embeds per message
+const EMBEDS_PER_MESSAGE = 10;
+
+// Sales sent by the seller, accepting a buyer's offer
+const OFFER_ACCEPT_EVENTS = ["offer_accept", "offer_floor_accept"];
+
+/**
+ * Posts new OBJKT sales and listings of subscribed collections to Discord channels
+ */
+export class SalesFeedService {
+    private readonly client: Client;
+    private readonly embedService: EmbedGeneratorService;
+    private readonly objktApi: ObjktApiService;
+    private readonly store = new JsonStore<FeedState>("feeds.json", { subscriptions: [], cursors: {} });
+    private readonly state: FeedState;
+    private pollTimer: ReturnType<typeof setInterval> | undefined;
+    private polling = false;
+
+    constructor(client: Client, embedService: EmbedGeneratorService) {
+        this.client = client;
+        this.embedService = embedService;
+        this.objktApi = new ObjktApiService();
+        this.state = this.store.load();
+    }
+
+    /**
+     * Starts polling subscribed collections
+     */
+    public start(): void {
+        if (this.pollTimer) {
+            return;
+        }
+
+        this.pollTimer = setInterval(() => void this.poll(), config.feeds.pollInterval * 1000);
+        logger.info(
+            `📰 Sales feeds polling every ${config.feeds.pollInterval}s (${this.state.subscriptions.length} feed(s))`
+        );
+    }
+
+    /**
+     * Stops polling
+     */
+    public stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    /**
+     * Returns the feeds of a guild
+     */
+    public getSubscriptions(guildId: string): FeedSubscription[] {
+        return this.state.subscriptions.filter((subscription) => subscription.guildId === guildId);
+    }
+
+    /**
+     * Subscribes a channel to a collection. Only events after this point are posted.
+     */
+    public async subscribe(subscription: Omit<FeedSubscription, "createdAt">): Promise<ApiResponse<FeedSubscription>> {
+        const guildFeeds = this.getSubscriptions(subscription.guildId);
+
+        if (
+            guildFeeds.some(
+                (feed) => feed.channelId === subscription.channelId && feed.contract === subscription.contract
+            )
+        ) {
+            return {
+                success: false,
+                error: `<#${subscription.channelId}> already has a feed for ${subscription.collectionName}.`,
+            };
+        }
+
+        if (guildFeeds.length >= MAX_FEEDS_PER_GUILD) {
+            return {
+                success: false,
+                error: `This server already has ${MAX_FEEDS_PER_GUILD} feeds, remove one first.`,
+            };
+        }
+
+        if (!this.state.cursors[subscription.contract]) {
+            const cursorResult = await this.getLatestEventId(subscription.contract);
+
+            if (!cursorResult.success) {
+                return {
+                    success: false,
+                    error: cursorResult.error || "Failed to fetch collection events",
+                };
+            }
+
+            // A collection without any events yet starts from the first one
+            this.state.cursors[subscription.contract] = cursorResult.data || "0";
+        }
+
+        const feed: FeedSubscription = { ...subscription, createdAt: new Date().toISOString() };
+        this.state.subscriptions.push(feed);
+        await this.store.save(this.state);
+
+        logger.info(`📰 Feed added: ${feed.contract} → #${feed.channelId} in guild ${feed.guildId}`);
+        return { success: true, data: feed };
+    }
+
+    /**
+     * Removes a guild's feeds of a collection, from one channel or from all of them
+     * @returns The removed feeds
+     */
+    public async unsubscribe(guildId: string, contract: string, channelId?: string): Promise<FeedSubscription[]> {
+        const isMatch = (feed: FeedSubscription): boolean =>
+            feed.guildId === guildId && feed.contract === contract && (!channelId || feed.channelId === channelId);
+
+        const removed = this.state.subscriptions.filter(isMatch);
+        if (removed.length === 0) {
+            return [];
+        }
+
+        this.state.subscriptions = this.state.subscriptions.filter((feed) => !isMatch(feed));
+
+        // Forget the cursor once nobody follows the collection
+        if (!this.state.subscriptions.some((feed) => feed.contract === contract)) {
+            delete this.state.cursors[contract];
+        }
+
+        await this.store.save(this.state);
+
+        logger.info(`📰 Removed ${removed.length} feed(s) of ${contract} in guild ${guildId}`);
+        return removed;
+    }
+
+    /**
+     * Checks every subscribed collection for new events, skipping the run while the previous one is busy
+     */
+    private async poll(): Promise<void> {
+        if (this.polling) {
+            return;
+        }
+
+        this.polling = true;
+        try {
+            const contracts = new Set(this.state.subscriptions.map((feed) => feed.contract));
+
+            for (const contract of contracts) {
+                try {
+                    await this.pollContract(contract);
+                } catch (error) {
+                    logger.error(`Failed to poll feed for ${contract}:`, error);
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Posts a collection's events since its cursor to every subscribed channel, then advances the cursor
+     */
+    private async pollContract(contract: string): Promise<void> {
+        const cursor = this.state.cursors[contract];
+
+        if (!cursor) {
+            // The cursor couldn't be set when subscribing, start from the latest event
+            const cursorResult = await this.getLatestEventId(contract);
+            if (cursorResult.success) {
+                this.state.cursors[contract] = cursorResult.data || "0";
+                await this.store.save(this.state);
+            }
+            return;
+        }
+
+        const result = await this.objktApi.getCollectionEvents(contract, cursor, EVENTS_PER_POLL);
+
+        if (!result.success || !result.data) {
+            logger.warn(`Failed to fetch feed events for ${contract}: ${result.error}`);
+            return;
+        }
+
+        const fetched = (result.data as ObjktCollectionEvent[]).filter((event) => BigInt(event.id) > BigInt(cursor));
+
+        const lastFetched = fetched[fetched.length - 1];
+        if (!lastFetched) {
+            return;
+        }
+
+        // Events of tokens OBJKT hasn't indexed yet can't be shown, but still move the cursor
+        const events = fetched.filter((event) => event.token).map((event) => this.parseEvent(contract, event));
+
+        if (events.length > 0) {
+            logger.info(`📰 ${events.length} new event(s) for ${contract}`);
+
+            const embeds = events.map((event) => this.embedService.createSaleEmbed(event));
+            const feeds = this.state.subscriptions.filter((feed) => feed.contract === contract);
+
+            for (const feed of feeds) {
+                await this.post(feed, embeds);
+            }
+        }
+
+        // Advanced even when a channel couldn't be reached, so events are never posted twice
+        this.state.cursors[contract] = String(lastFetched.id);
+        await this.store.save(this.state);
+    }
+
+    /**
+     * Sends embeds to a feed's channel, batched per message
+     */
+    private async post(feed: FeedSubscription, embeds: EmbedBuilder[]): Promise<void> {
+        try {
+            const channel = await this.client.channels.fetch(feed.channelId);
+
+            if (!channel?.isSendable()) {
+                logger.warn(`Feed channel ${feed.channelId} is unavailable, skipping ${feed.contract}`);
+                return;
+            }
+
+            for (let i = 0; i < embeds.length; i += EMBEDS_PER_MESSAGE) {
+                await channel.send({ embeds: embeds.slice(i, i + EMBEDS_PER_MESSAGE) });
+            }
+        } catch (error) {
+            logger.error(`Failed to post feed for ${feed.contract} to ${feed.channelId}:`, error);
+        }
+    }
+
+    /**
+     * Gets the ID of a collection's most recent event, undefined when it has none
+     */
+    private async getLatestEventId(contract: string): Promise<ApiResponse<string | undefined>> {
+        const result = await this.objktApi.getCollectionEvents(contract, undefined, 1);
+
+        if (!result.success || !result.data) {
+            return {
+                success: false,
+                error: result.error || "Failed to fetch collection events",
+            };
+        }
+
+        const [latest] = result.data as ObjktCollectionEvent[];
+        return { success: true, data: latest ? String(latest.id) : undefined };
+    }
+
+    /**
+     * Converts an OBJKT event to a feed event. The recipient of a sale receives the token.
+     */
+    private parseEvent(contract: string, event: ObjktCollectionEvent): CollectionSaleEvent {
+        const isSale = COLLECTION_SALE_EVENTS.includes(event.marketplace_event_type);
+        const tokenId = event.token?.token_id || "";
+        // Listings are created and offers accepted by the seller, other sales are sent by the buyer
+        const sender =
+            !isSale || OFFER_ACCEPT_EVENTS.includes(event.marketplace_event_type) ? event.creator : undefined;
+        const sellerParty = event.ask?.seller || event.english_auction?.seller || event.dutch_auction?.seller || sender;
+        const seller = sellerParty
+            ? { address: sellerParty.address, alias: sellerParty.alias || undefined }
+            : undefined;
+        const recipient = event.recipient
+            ? { address: event.recipient.address, alias: event.recipient.alias || undefined }
+            : undefined;
+
+        return {
+            id: String(event.id),
+            type: isSale ? "sale" : "listing",
+            contract,
+            tokenId,
+            tokenName: event.token?.name || `#${tokenId}`,
+            imageUrl: event.token?.display_uri || event.token?.thumbnail_uri || undefined,
+            collectionName: event.fa?.name || undefined,
+            price: event.price_xtz ? event.price_xtz / 1000000 : undefined,
+            amount: event.amount || 1,
+            seller,
+            buyer: isSale ? recipient : undefined,
+            marketplace: event.marketplace?.name || undefined,
+            timestamp: event.timestamp,
+            url: `https://objkt.com/tokens/${contract}/${tokenId}`,
+        };
+    }
+}
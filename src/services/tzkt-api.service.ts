@@ -1,6 +1,16 @@
 import { config } from "../config";
 import { logger } from "../utils/logger";
-import type { TzktToken, ApiResponse } from "../types";
+import type {
+    TzktToken,
+    TzktAccount,
+    TzktTokenDetails,
+    TzktTokenBalance,
+    TzktHolderBalance,
+    TzktTokenAttributes,
+    TzktOperation,
+    TzktTokenTransfer,
+    ApiResponse,
+} from "../types";
 
 export class TzktApiService {
     private readonly baseUrl: string;
@@ -26,6 +36,32 @@ export class TzktApiService {
         return true;
     }
 
+    /**
+     * Makes a GET request to the TZKT API
+     */
+    private async makeRequest(path: string, params: Record<string, string> = {}): Promise<unknown> {
+        const url = new URL(path, this.baseUrl);
+
+        for (const [key, value] of Object.entries(params)) {
+            url.searchParams.set(key, value);
+        }
+
+        const response = await fetch(url.toString(), {
+            method: "GET",
+            headers: {
+                "User-Agent": "Discord-Tezos-Previews-Bot/1.0.0",
+                Accept: "application/json",
+            },
+            signal: AbortSignal.timeout(10000),
+        });
+
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
     /**
      * Gets token information by contract address and token ID
      */
@@ -146,4 +182,435 @@ export class TzktApiService {
             };
         }
     }
+
+    /**
+     * Gets account information (alias and TZIP profile metadata) for a tz address
+     */
+    public async getAccountInfo(address: string): Promise<ApiResponse<TzktAccount>> {
+        const endpoint = `accounts/${address}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching account info from TZKT: ${address}`);
+
+            const data = (await this.makeRequest(`/v1/accounts/${address}`, { metadata: "true" })) as TzktAccount;
+
+            if (!data || data.type === "empty") {
+                return {
+                    success: false,
+                    error: "Account not found",
+                };
+            }
+
+            return {
+                success: true,
+                data,
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `TZKT API error: ${error.message}`
+                    : "Unknown error occurred while fetching account info";
+
+            logger.error("Failed to fetch account info from TZKT:", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * Resolves a Tezos Domains name (e.g. alice.tez) to its address
+     */
+    public async resolveDomain(domain: string): Promise<ApiResponse<string>> {
+        const endpoint = `domains/${domain}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Resolving domain via TZKT: ${domain}`);
+
+            const data = (await this.makeRequest("/v1/domains", {
+                name: domain.toLowerCase(),
+                limit: "1",
+            })) as Array<{ name: string; address?: { address: string } }>;
+
+            const address = data[0]?.address?.address;
+
+            if (!address) {
+                return {
+                    success: false,
+                    error: `Domain not found: ${domain}`,
+                };
+            }
+
+            return {
+                success: true,
+                data: address,
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `TZKT API error: ${error.message}`
+                    : "Unknown error occurred while resolving domain";
+
+            logger.error("Failed to resolve domain from TZKT:", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * Gets the most recent tokens first minted by an address
+     * @param afterId Only tokens with a higher TZKT ID, oldest first
+     */
+    public async getTokensByCreator(
+        address: string,
+        limit = 5,
+        afterId?: number
+    ): Promise<ApiResponse<TzktTokenDetails[]>> {
+        // Keyed apart from reads past a cursor, so looking up the latest mints doesn't collide with artist polls
+        const endpoint = afterId === undefined ? `tokens/minter/${address}/latest` : `tokens/minter/${address}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching tokens minted by ${address} from TZKT`);
+
+            const data = (await this.makeRequest("/v1/tokens", {
+                firstMinter: address,
+                ...(afterId === undefined ? { "sort.desc": "id" } : { "id.gt": String(afterId), "sort.asc": "id" }),
+                limit: String(limit),
+            })) as TzktTokenDetails[];
+
+            return {
+                success: true,
+                data,
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `TZKT API error: ${error.message}`
+                    : "Unknown error occurred while fetching minted tokens";
+
+            logger.error("Failed to fetch minted tokens from TZKT:", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * Gets the number of tokens an address created and the number it collected from others
+     */
+    public async getAccountTokenCounts(
+        address: string
+    ): Promise<ApiResponse<{ createdCount: number; collectedCount: number }>> {
+        const endpoint = `tokens/counts/${address}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            const [createdCount, collectedCount] = (await Promise.all([
+                this.makeRequest("/v1/tokens/count", { firstMinter: address }),
+                this.makeRequest("/v1/tokens/balances/count", {
+                    account: address,
+                    "balance.gt": "0",
+                    "token.firstMinter.ne": address,
+                }),
+            ])) as [number, number];
+
+            return {
+                success: true,
+                data: { createdCount, collectedCount },
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `TZKT API error: ${error.message}`
+                    : "Unknown error occurred while fetching token counts";
+
+            logger.error("Failed to fetch token counts from TZKT:", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * Gets the NFT balances held by an account, most recently changed first
+     * @param limit Maximum number of balances to fetch
+     */
+    public async getTokenBalances(address: string, limit = 1000): Promise<ApiResponse<TzktTokenBalance[]>> {
+        const endpoint = `tokens/balances/${address}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching token balances for ${address} from TZKT`);
+
+            // Tokens without an artifact are fungible tokens (hDAO, stablecoins...), not NFTs
+            const data = (await this.makeRequest("/v1/tokens/balances", {
+                account: address,
+                "balance.gt": "0",
+                "token.metadata.artifactUri.null": "false",
+                "sort.desc": "lastTime",
+                limit: String(limit),
+            })) as TzktTokenBalance[];
+
+            return {
+                success: true,
+                data,
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `TZKT API error: ${error.message}`
+                    : "Unknown error occurred while fetching token balances";
+
+            logger.error("Failed to fetch token balances from TZKT:", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * Gets the holder balances of a collection, or of a single token when a token ID is given
+     * @param limit Maximum number of balances to fetch (TZKT allows up to 10000)
+     */
+    public async getTokenHolders(
+        contractAddress: string,
+        tokenId?: string,
+        limit = 10000
+    ): Promise<ApiResponse<TzktHolderBalance[]>> {
+        const endpoint = `tokens/holders/${contractAddress}/${tokenId ?? "*"}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching holders of ${contractAddress}${tokenId ? `/${tokenId}` : ""} from TZKT`);
+
+            const params: Record<string, string> = {
+                "token.contract": contractAddress,
+                "balance.gt": "0",
+                "sort.desc": "balance",
+                select: "account,balance",
+                limit: String(limit),
+            };
+
+            if (tokenId) {
+                params["token.tokenId"] = tokenId;
+            }
+
+            const data = (await this.makeRequest("/v1/tokens/balances", params)) as TzktHolderBalance[];
+
+            return {
+                success: true,
+                data,
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `TZKT API error: ${error.message}`
+                    : "Unknown error occurred while fetching token holders";
+
+            logger.error("Failed to fetch token holders from TZKT:", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * Gets the transfers (including mints and burns) of a token, newest first
+     */
+    public async getTokenTransfers(
+        contractAddress: string,
+        tokenId: string,
+        limit = 50
+    ): Promise<ApiResponse<TzktTokenTransfer[]>> {
+        const endpoint = `tokens/transfers/${contractAddress}_${tokenId}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching transfers of ${contractAddress}/${tokenId} from TZKT`);
+
+            const data = (await this.makeRequest("/v1/tokens/transfers", {
+                "token.contract": contractAddress,
+                "token.tokenId": tokenId,
+                "sort.desc": "id",
+                limit: String(limit),
+            })) as TzktTokenTransfer[];
+
+            return {
+                success: true,
+                data,
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `TZKT API error: ${error.message}`
+                    : "Unknown error occurred while fetching token transfers";
+
+            logger.error("Failed to fetch token transfers from TZKT:", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * Gets the metadata attributes of every token of a contract that has any, used to compute rarity
+     * @param limit Maximum number of tokens to fetch
+     */
+    public async getCollectionAttributes(
+        contractAddress: string,
+        limit = 10000
+    ): Promise<ApiResponse<TzktTokenAttributes[]>> {
+        const endpoint = `tokens/attributes/${contractAddress}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching token attributes of ${contractAddress} from TZKT`);
+
+            const data = (await this.makeRequest("/v1/tokens", {
+                contract: contractAddress,
+                "metadata.attributes.null": "false",
+                select: "tokenId,metadata.attributes as attributes",
+                limit: String(limit),
+            })) as TzktTokenAttributes[];
+
+            return {
+                success: true,
+                data,
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `TZKT API error: ${error.message}`
+                    : "Unknown error occurred while fetching token attributes";
+
+            logger.error("Failed to fetch token attributes from TZKT:", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * Gets all operations in an operation group together with the token transfers they caused
+     */
+    public async getOperation(
+        hash: string
+    ): Promise<ApiResponse<{ operations: TzktOperation[]; transfers: TzktTokenTransfer[] }>> {
+        const endpoint = `operations/${hash}`;
+
+        if (!this.checkRateLimit(endpoint)) {
+            return {
+                success: false,
+                error: "Rate limit exceeded. Please try again later.",
+            };
+        }
+
+        try {
+            logger.info(`Fetching operation from TZKT: ${hash}`);
+
+            const operations = (await this.makeRequest(`/v1/operations/${hash}`)) as TzktOperation[];
+
+            if (!operations || operations.length === 0) {
+                return {
+                    success: false,
+                    error: "Operation not found",
+                };
+            }
+
+            const transactionIds = operations.filter((op) => op.type === "transaction").map((op) => op.id);
+
+            const transfers =
+                transactionIds.length > 0
+                    ? ((await this.makeRequest("/v1/tokens/transfers", {
+                          "transactionId.in": transactionIds.join(","),
+                          limit: "100",
+                      })) as TzktTokenTransfer[])
+                    : [];
+
+            return {
+                success: true,
+                data: { operations, transfers },
+            };
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error
+                    ? `TZKT API error: ${error.message}`
+                    : "Unknown error occurred while fetching operation";
+
+            logger.error("Failed to fetch operation from TZKT:", error);
+
+            return {
+                success: false,
+                error: errorMessage,
+            };
+        }
+    }
 }
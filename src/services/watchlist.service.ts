@@ -0,0 +1,229 @@
+import type { Client } from "discord.js";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { JsonStore } from "../utils/json-store";
+import { ObjktApiService } from "./objkt-api.service";
+import type { EmbedGeneratorService } from "./embed-generator.service";
+import type { ObjktTokenMetadata } from "./nft.service";
+import type { ApiResponse, TokenMarketSnapshot, WatchedToken } from "../types";
+
+interface WatchlistState {
+    tokens: WatchedToken[];
+    nextId: number;
+}
+
+const MAX_TOKENS_PER_USER = 25;
+
+/**
+ * Follows the market state of tokens on users' watchlists and DMs them when it changes
+ */
+export class WatchlistService {
+    private readonly client: Client;
+    private readonly embedService: EmbedGeneratorService;
+    private readonly objktApi: ObjktApiService;
+    private readonly store = new JsonStore<WatchlistState>("watchlists.json", { tokens: [], nextId: 1 });
+    private readonly state: WatchlistState;
+    private pollTimer: ReturnType<typeof setInterval> | undefined;
+    private polling = false;
+
+    constructor(client: Client, embedService: EmbedGeneratorService) {
+        this.client = client;
+        this.embedService = embedService;
+        this.objktApi = new ObjktApiService();
+        this.state = this.store.load();
+    }
+
+    /**
+     * Starts checking watched tokens
+     */
+    public start(): void {
+        if (this.pollTimer) {
+            return;
+        }
+
+        this.pollTimer = setInterval(() => void this.poll(), config.watchlist.pollInterval * 1000);
+        logger.info(
+            `👀 Watchlists checking every ${config.watchlist.pollInterval}s (${this.state.tokens.length} token(s))`
+        );
+    }
+
+    /**
+     * Stops checking watched tokens
+     */
+    public stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    /**
+     * Returns a user's watchlist
+     */
+    public getWatchlist(userId: string): WatchedToken[] {
+        return this.state.tokens.filter((token) => token.userId === userId);
+    }
+
+    /**
+     * Adds a token to a user's watchlist with its current market state
+     */
+    public async addToken(userId: string, contract: string, tokenId: string): Promise<ApiResponse<WatchedToken>> {
+        const watchlist = this.getWatchlist(userId);
+
+        const existing = watchlist.find((token) => token.contract === contract && token.tokenId === tokenId);
+        if (existing) {
+            return {
+                success: false,
+                error: `**${existing.name}** is already on your watchlist.`,
+            };
+        }
+
+        if (watchlist.length >= MAX_TOKENS_PER_USER) {
+            return {
+                success: false,
+                error: `Your watchlist already has ${MAX_TOKENS_PER_USER} tokens, remove one first.`,
+            };
+        }
+
+        const result = await this.objktApi.getTokenMetadata(contract, tokenId);
+        if (!result.success || !result.data) {
+            return {
+                success: false,
+                error: result.error || "Failed to fetch token",
+            };
+        }
+
+        const market = result.data as ObjktTokenMetadata;
+        const token: WatchedToken = {
+            id: this.state.nextId++,
+            userId,
+            contract,
+            tokenId,
+            name: market.name || `#${tokenId}`,
+            imageUrl: market.display_uri || market.thumbnail_uri || undefined,
+            url: `https://objkt.com/tokens/${contract}/${tokenId}`,
+            snapshot: this.createSnapshot(market),
+            createdAt: new Date().toISOString(),
+        };
+
+        this.state.tokens.push(token);
+        await this.store.save(this.state);
+
+        logger.info(`👀 Watching ${contract}/${tokenId} for ${userId}`);
+        return { success: true, data: token };
+    }
+
+    /**
+     * Removes a token from a user's watchlist
+     * @returns The removed token, undefined when the user has no watched token with this ID
+     */
+    public async removeToken(userId: string, id: number): Promise<WatchedToken | undefined> {
+        const token = this.state.tokens.find((entry) => entry.userId === userId && entry.id === id);
+        if (!token) {
+            return undefined;
+        }
+
+        this.state.tokens = this.state.tokens.filter((entry) => entry !== token);
+        await this.store.save(this.state);
+
+        logger.info(`👀 Stopped watching ${token.contract}/${token.tokenId} for ${userId}`);
+        return token;
+    }
+
+    /**
+     * Checks every watched token once, however many users watch it
+     */
+    private async poll(): Promise<void> {
+        if (this.polling) {
+            return;
+        }
+
+        this.polling = true;
+        try {
+            const tokenKeys = new Set(this.state.tokens.map((token) => `${token.contract}/${token.tokenId}`));
+
+            for (const tokenKey of tokenKeys) {
+                try {
+                    await this.checkToken(tokenKey);
+                } catch (error) {
+                    logger.error(`Failed to check watched token ${tokenKey}:`, error);
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Fetches a token's market state and DMs every watcher whose last reported state differs
+     * @param tokenKey "<contract>/<token id>"
+     */
+    private async checkToken(tokenKey: string): Promise<void> {
+        const [contract = "", tokenId = ""] = tokenKey.split("/");
+        const result = await this.objktApi.getTokenMetadata(contract, tokenId);
+
+        if (!result.success || !result.data) {
+            logger.warn(`Failed to fetch watched token ${tokenKey}: ${result.error}`);
+            return;
+        }
+
+        const current = this.createSnapshot(result.data as ObjktTokenMetadata);
+        const watchers = this.state.tokens.filter((token) => token.contract === contract && token.tokenId === tokenId);
+        let changed = false;
+
+        for (const token of watchers) {
+            if (this.isSameSnapshot(token.snapshot, current)) {
+                continue;
+            }
+
+            await this.notify(token, current);
+            token.snapshot = current;
+            changed = true;
+        }
+
+        if (changed) {
+            await this.store.save(this.state);
+        }
+    }
+
+    /**
+     * DMs a watcher the changes since their last report
+     */
+    private async notify(token: WatchedToken, current: TokenMarketSnapshot): Promise<void> {
+        try {
+            const user = await this.client.users.fetch(token.userId);
+            await user.send({ embeds: [this.embedService.createWatchlistChangeEmbed(token, current)] });
+        } catch (error) {
+            logger.warn(
+                `Failed to DM watchlist change of ${token.contract}/${token.tokenId} to ${token.userId}:`,
+                error
+            );
+        }
+    }
+
+    /**
+     * Extracts the watched market state from OBJKT token data
+     */
+    private createSnapshot(market: ObjktTokenMetadata): TokenMarketSnapshot {
+        const englishAuction = market.english_auctions_active?.[0] as { highest_bid_xtz?: number | null } | undefined;
+
+        return {
+            lowestAsk: market.lowest_ask ? market.lowest_ask / 1000000 : undefined,
+            auctionActive: !!englishAuction || (market.dutch_auctions_active?.length ?? 0) > 0,
+            auctionBid: englishAuction?.highest_bid_xtz ? englishAuction.highest_bid_xtz / 1000000 : undefined,
+            openEditionActive: !!market.open_edition_active,
+        };
+    }
+
+    /**
+     * Whether two snapshots report the same market state
+     */
+    private isSameSnapshot(a: TokenMarketSnapshot, b: TokenMarketSnapshot): boolean {
+        return (
+            a.lowestAsk === b.lowestAsk &&
+            a.auctionActive === b.auctionActive &&
+            a.auctionBid === b.auctionBid &&
+            a.openEditionActive === b.openEditionActive
+        );
+    }
+}
@@ -1,5 +1,23 @@
+import type {
+    AutocompleteInteraction,
+    ButtonInteraction,
+    ChatInputCommandInteraction,
+    MessageContextMenuCommandInteraction,
+    PermissionResolvable,
+    RESTPostAPIApplicationCommandsJSONBody,
+} from "discord.js";
+import type { NFTService } from "../services/nft.service";
+import type { EmbedGeneratorService } from "../services/embed-generator.service";
+import type { PreviewService } from "../services/preview.service";
+import type { SalesFeedService } from "../services/sales-feed.service";
+import type { ArtistWatchService } from "../services/artist-watch.service";
+import type { FloorAlertService } from "../services/floor-alert.service";
+import type { ReminderService } from "../services/reminder.service";
+import type { WatchlistService } from "../services/watchlist.service";
+
 export interface TezosNFT {
     id: string;
+    contractAddress?: string | undefined;
     name: string;
     description?: string | undefined;
     imageUrl?: string | undefined;
@@ -45,12 +63,24 @@ export interface TezosNFT {
               mintedCount?: number;
           }
         | undefined;
+    auctionInfo?:
+        | {
+              endTime?: string | undefined;
+              // Highest bid in the sale currency, English auctions only
+              highestBid?: number | undefined;
+          }
+        | undefined;
     edition?:
         | {
               current: number;
               total: number;
           }
         | undefined;
+    iteration?: number | undefined;
+    // fx(hash) generative token (project) id
+    projectId?: string | undefined;
+    chain?: Chain | undefined;
+    rarity?: TokenRarity | undefined;
     marketplace: {
         name: string;
         url: string;
@@ -71,10 +101,14 @@ export interface TezosNFT {
         | undefined;
 }
 
+export type Chain = "tezos" | "etherlink" | "ethereum" | "base";
+
 export interface MarketplaceMatch {
     marketplace: string;
+    marketplaceKey: string;
     tokenId: string;
     contractAddress?: string | undefined;
+    chain?: Chain | undefined;
     url: string;
 }
 
@@ -143,6 +177,7 @@ export interface ApiResponse<T> {
 export interface TezosCollection {
     contract: string;
     name: string;
+    chain?: Chain | undefined;
     description?: string | undefined;
     logo?: string | undefined;
     collectionType?: string | undefined;
@@ -155,6 +190,13 @@ export interface TezosCollection {
     volume24h?: number | undefined;
     volumeTotal?: number | undefined;
     verifiedCreators?: string[] | undefined;
+    mintProgress?:
+        | {
+              minted: number;
+              total: number;
+              price?: number | undefined;
+          }
+        | undefined;
     marketplace: {
         name: string;
         url: string;
@@ -163,7 +205,521 @@ export interface TezosCollection {
 
 export interface CollectionMatch {
     marketplace: string;
+    marketplaceKey: string;
     contractAddress?: string | undefined;
     projectId?: string | undefined;
     url: string;
 }
+
+export interface TokenIdentity {
+    tokenId: string;
+    contractAddress?: string | undefined;
+    chain?: Chain | undefined;
+    url?: string | undefined;
+}
+
+export interface CollectionIdentity {
+    contractAddress?: string | undefined;
+    projectId?: string | undefined;
+}
+
+export interface MarketplaceFetchStrategy {
+    source: "objkt" | "tzkt" | "fxhash";
+    contractAddress?: string | undefined;
+}
+
+export interface MarketplaceAdapter {
+    key: string;
+    name: string;
+    icon: string;
+    tokenPatterns: RegExp[];
+    collectionPatterns?: RegExp[] | undefined;
+    toTokenIdentity: (match: RegExpMatchArray) => TokenIdentity | undefined;
+    toCollectionIdentity?: ((match: RegExpMatchArray) => CollectionIdentity | undefined) | undefined;
+    fetchStrategy: MarketplaceFetchStrategy;
+    referralParam?: string | undefined;
+}
+
+export type IgnoredContext = "code" | "spoiler" | "quote" | "suppressed";
+
+export interface ProfileMatch {
+    address?: string | undefined;
+    alias?: string | undefined;
+    domain?: string | undefined;
+    url: string;
+}
+
+export interface TezosProfile {
+    address: string;
+    alias?: string | undefined;
+    domain?: string | undefined;
+    avatar?: string | undefined;
+    description?: string | undefined;
+    twitter?: string | undefined;
+    instagram?: string | undefined;
+    website?: string | undefined;
+    discord?: string | undefined;
+    createdCount?: number | undefined;
+    collectedCount?: number | undefined;
+    recentMints?:
+        | Array<{
+              tokenId: string;
+              contractAddress: string;
+              name: string;
+              imageUrl?: string | undefined;
+              mintedAt?: string | undefined;
+              lowestAsk?: number | undefined;
+              url: string;
+          }>
+        | undefined;
+    url: string;
+}
+
+export interface TzktAccount {
+    address: string;
+    type: string;
+    alias?: string;
+    balance?: number;
+    firstActivityTime?: string;
+    metadata?: {
+        alias?: string;
+        description?: string;
+        site?: string;
+        twitter?: string;
+        instagram?: string;
+        discord?: string;
+        logo?: string;
+    };
+}
+
+export interface TzktTokenDetails {
+    id: number;
+    contract: {
+        address: string;
+        alias?: string;
+    };
+    tokenId: string;
+    standard: string;
+    firstMinter?: {
+        address: string;
+        alias?: string;
+    };
+    firstTime: string;
+    totalSupply: string;
+    metadata?: {
+        name?: string;
+        description?: string;
+        displayUri?: string;
+        thumbnailUri?: string;
+        artifactUri?: string;
+    };
+}
+
+export interface TzktTokenBalance {
+    id: number;
+    account: {
+        address: string;
+        alias?: string;
+    };
+    token: TzktTokenDetails;
+    balance: string;
+    firstTime: string;
+    lastTime: string;
+}
+
+export interface TzktHolderBalance {
+    account: {
+        address: string;
+        alias?: string;
+    };
+    balance: string;
+}
+
+export interface TokenTarget {
+    contractAddress: string;
+    tokenId?: string | undefined;
+}
+
+export interface HolderList {
+    contract: string;
+    tokenId?: string | undefined;
+    name: string;
+    // Sorted by balance, largest first
+    holders: Array<{
+        address: string;
+        alias?: string | undefined;
+        balance: number;
+    }>;
+    totalSupply: number;
+    // True when there were more balances than were fetched, so the list may be incomplete
+    truncated: boolean;
+    url: string;
+}
+
+export interface ProvenanceEntry {
+    type: "mint" | "transfer" | "sale" | "burn";
+    timestamp: string;
+    from?: { address: string; alias?: string | undefined } | undefined;
+    to?: { address: string; alias?: string | undefined } | undefined;
+    amount: number;
+    // Price per edition in tez, for sales
+    price?: number | undefined;
+    marketplace?: string | undefined;
+    url?: string | undefined;
+}
+
+export interface TokenProvenance {
+    contract: string;
+    tokenId: string;
+    name: string;
+    // Newest first
+    entries: ProvenanceEntry[];
+    url: string;
+}
+
+export interface TzktTokenAttributes {
+    tokenId: string;
+    // TZIP-21 uses name, some contracts use the OpenSea style trait_type
+    attributes?: Array<{ name?: string; trait_type?: string; value: string | number | boolean }> | null;
+}
+
+export interface TokenRarity {
+    // 1 is the rarest token
+    rank: number;
+    total: number;
+    score: number;
+    traits: Array<{
+        trait_type: string;
+        value: string | number;
+        count: number;
+        percentage: number;
+    }>;
+}
+
+export interface WalletSummary {
+    address: string;
+    alias?: string | undefined;
+    domain?: string | undefined;
+    tokenCount: number;
+    editionCount: number;
+    collectionCount: number;
+    // True when the wallet holds more tokens than were fetched, so counts are lower bounds
+    truncated: boolean;
+    createdCount?: number | undefined;
+    topCollections: Array<{
+        contract: string;
+        name: string;
+        tokenCount: number;
+        editionCount: number;
+        floorPrice?: number | undefined;
+    }>;
+    // Floor value of the editions held in the top collections, in tez
+    estimatedValue?: number | undefined;
+    recentlyCollected: Array<{
+        tokenId: string;
+        contractAddress: string;
+        name: string;
+        collectedAt: string;
+        url: string;
+    }>;
+    url: string;
+}
+
+export interface CollectionSaleEvent {
+    // OBJKT event ID, increasing over time
+    id: string;
+    type: "sale" | "listing";
+    contract: string;
+    tokenId: string;
+    tokenName: string;
+    imageUrl?: string | undefined;
+    collectionName?: string | undefined;
+    // Price per edition in tez
+    price?: number | undefined;
+    amount: number;
+    seller?: { address: string; alias?: string | undefined } | undefined;
+    buyer?: { address: string; alias?: string | undefined } | undefined;
+    marketplace?: string | undefined;
+    timestamp: string;
+    url: string;
+}
+
+export interface FeedSubscription {
+    guildId: string;
+    channelId: string;
+    contract: string;
+    collectionName: string;
+    createdBy: string;
+    createdAt: string;
+}
+
+export interface ArtistFollow {
+    guildId: string;
+    channelId: string;
+    address: string;
+    name: string;
+    // Role pinged with each new mint
+    roleId?: string | undefined;
+    createdBy: string;
+    createdAt: string;
+}
+
+export interface FloorAlert {
+    id: number;
+    userId: string;
+    contract: string;
+    collectionName: string;
+    direction: "below" | "above";
+    // Floor price threshold in tez
+    threshold: number;
+    // Sent as a DM, or as a mention in the channel the alert was created in
+    notify: "dm" | "channel";
+    guildId?: string | undefined;
+    channelId?: string | undefined;
+    // False after the alert fired, until the floor moves back past the threshold
+    armed: boolean;
+    lastTriggeredAt?: string | undefined;
+    createdAt: string;
+}
+
+export interface AuctionReminder {
+    id: number;
+    userId: string;
+    contract: string;
+    tokenId: string;
+    tokenName: string;
+    endTime: string;
+    remindAt: string;
+    url: string;
+    createdAt: string;
+}
+
+export interface TokenMarketSnapshot {
+    // Prices in tez
+    lowestAsk?: number | undefined;
+    auctionActive: boolean;
+    auctionBid?: number | undefined;
+    openEditionActive: boolean;
+}
+
+export interface WatchedToken {
+    id: number;
+    userId: string;
+    contract: string;
+    tokenId: string;
+    name: string;
+    imageUrl?: string | undefined;
+    url: string;
+    // Market state last reported to the user
+    snapshot: TokenMarketSnapshot;
+    createdAt: string;
+}
+
+export interface OperationMatch {
+    hash: string;
+    url: string;
+}
+
+export interface TezosOperation {
+    hash: string;
+    status: string;
+    timestamp?: string | undefined;
+    sender: {
+        address: string;
+        alias?: string | undefined;
+    };
+    target?:
+        | {
+              address: string;
+              alias?: string | undefined;
+          }
+        | undefined;
+    entrypoint?: string | undefined;
+    amount: number;
+    fee: number;
+    tokens: Array<{
+        contractAddress: string;
+        tokenId: string;
+        name: string;
+        amount: string;
+        imageUrl?: string | undefined;
+        from?: { address: string; alias?: string | undefined } | undefined;
+        to?: { address: string; alias?: string | undefined } | undefined;
+    }>;
+    sale?:
+        | {
+              marketplace: string;
+              price: number;
+          }
+        | undefined;
+    url: string;
+}
+
+export interface TzktOperation {
+    type: string;
+    id: number;
+    level: number;
+    timestamp: string;
+    hash: string;
+    sender?: {
+        address: string;
+        alias?: string;
+    };
+    initiator?: {
+        address: string;
+        alias?: string;
+    };
+    target?: {
+        address: string;
+        alias?: string;
+    };
+    amount?: number;
+    bakerFee?: number;
+    storageFee?: number;
+    allocationFee?: number;
+    status: string;
+    parameter?: {
+        entrypoint: string;
+        value: unknown;
+    };
+}
+
+export interface TzktTokenTransfer {
+    id: number;
+    level: number;
+    timestamp: string;
+    token: {
+        contract: {
+            address: string;
+            alias?: string;
+        };
+        tokenId: string;
+        metadata?: {
+            name?: string;
+            displayUri?: string;
+            thumbnailUri?: string;
+        };
+    };
+    from?: {
+        address: string;
+        alias?: string;
+    };
+    to?: {
+        address: string;
+        alias?: string;
+    };
+    amount: string;
+    transactionId?: number;
+}
+
+export interface FxHashAuthor {
+    id: string;
+    name?: string | null;
+    avatarUri?: string | null;
+}
+
+export interface FxHashGenerativeToken {
+    id: number;
+    name: string;
+    slug?: string | null;
+    chain?: string | null;
+    supply: number;
+    balance: number;
+    originalSupply?: number | null;
+    iterationsCount?: number | null;
+    thumbnailUri?: string | null;
+    displayUri?: string | null;
+    createdAt?: string | null;
+    metadata?: {
+        description?: string;
+    } | null;
+    author?: FxHashAuthor | null;
+    pricingFixed?: {
+        price: number;
+        opensAt?: string | null;
+    } | null;
+    pricingDutchAuction?: {
+        levels: number[];
+        restingPrice?: number | null;
+        opensAt?: string | null;
+    } | null;
+    marketStats?: {
+        floor?: number | null;
+        secVolumeTz?: number | null;
+        secVolumeTz24?: number | null;
+        listed?: number | null;
+    } | null;
+    objkts?: Array<{
+        id: string;
+        version?: number | null;
+    }> | null;
+}
+
+export interface FxHashGentk {
+    id: string;
+    name?: string | null;
+    slug?: string | null;
+    iteration?: number | null;
+    version?: number | null;
+    rarity?: number | null;
+    displayUri?: string | null;
+    thumbnailUri?: string | null;
+    metadata?: {
+        description?: string;
+        artifactUri?: string;
+    } | null;
+    features?: Array<{
+        name: string;
+        value: string | number | boolean;
+        rarity?: number;
+    }> | null;
+    owner?: FxHashAuthor | null;
+    activeListing?: {
+        price: number;
+    } | null;
+    issuer?: FxHashGenerativeToken | null;
+}
+
+export interface PreviewResults {
+    nfts: TezosNFT[];
+    collections: TezosCollection[];
+    profiles: TezosProfile[];
+    operations: TezosOperation[];
+}
+
+export interface CommandContext {
+    nftService: NFTService;
+    embedService: EmbedGeneratorService;
+    previewService: PreviewService;
+    salesFeedService: SalesFeedService;
+    artistWatchService: ArtistWatchService;
+    floorAlertService: FloorAlertService;
+    reminderService: ReminderService;
+    watchlistService: WatchlistService;
+}
+
+interface BaseBotCommand {
+    data: {
+        readonly name: string;
+        toJSON(): RESTPostAPIApplicationCommandsJSONBody;
+    };
+    // Member permissions required to run the command (checked when the command is used)
+    permissions?: PermissionResolvable | undefined;
+    // Per-user cooldown in seconds
+    cooldown?: number | undefined;
+}
+
+export interface SlashCommand extends BaseBotCommand {
+    type: "slash";
+    execute: (interaction: ChatInputCommandInteraction, context: CommandContext) => Promise<void>;
+    autocomplete?: ((interaction: AutocompleteInteraction, context: CommandContext) => Promise<void>) | undefined;
+    // Handles buttons whose custom ID starts with "<command name>:"
+    handleButton?: ((interaction: ButtonInteraction, context: CommandContext) => Promise<void>) | undefined;
+}
+
+export interface MessageContextMenuCommand extends BaseBotCommand {
+    type: "message";
+    execute: (interaction: MessageContextMenuCommandInteraction, context: CommandContext) => Promise<void>;
+}
+
+export type BotCommand = SlashCommand | MessageContextMenuCommand;
@@ -0,0 +1,43 @@
+import type { Chain } from "../types";
+
+export const CHAIN_NAMES: Record<Chain, string> = {
+    tezos: "Tezos",
+    etherlink: "Etherlink",
+    ethereum: "Ethereum",
+    base: "Base",
+};
+
+/**
+ * Normalizes chain names used by URLs and APIs (e.g. "ETHEREUM", "eth", "base") to a Chain
+ */
+export function parseChain(value: string | null | undefined): Chain | undefined {
+    switch (value?.toLowerCase()) {
+        case "tezos":
+        case "tez":
+            return "tezos";
+        case "etherlink":
+            return "etherlink";
+        case "ethereum":
+        case "eth":
+            return "ethereum";
+        case "base":
+            return "base";
+        default:
+            return undefined;
+    }
+}
+
+// Decimals of each chain's native currency in marketplace API amounts
+const NATIVE_DECIMALS: Record<Chain, number> = {
+    tezos: 6,
+    etherlink: 18,
+    ethereum: 18,
+    base: 18,
+};
+
+/**
+ * Converts an amount in a chain's smallest unit (mutez on Tezos, wei on EVM chains) to whole coins, Tezos by default
+ */
+export function fromSmallestUnit(amount: number | string, chain: Chain | undefined): number {
+    return Number(amount) / 10 ** NATIVE_DECIMALS[chain || "tezos"];
+}
@@ -0,0 +1,37 @@
+/**
+ * Tracks per-user command cooldowns in memory
+ */
+export class CooldownTracker {
+    private readonly expirations = new Map<string, number>();
+
+    /**
+     * Returns the remaining cooldown in milliseconds, or 0 and starts a new cooldown when the user may proceed
+     * @param key Cooldown bucket, e.g. the command name
+     * @param userId The Discord user ID
+     * @param seconds Cooldown length in seconds
+     */
+    public consume(key: string, userId: string, seconds: number): number {
+        const id = `${key}:${userId}`;
+        const now = Date.now();
+        const expiresAt = this.expirations.get(id);
+
+        if (expiresAt && expiresAt > now) {
+            return expiresAt - now;
+        }
+
+        this.expirations.set(id, now + seconds * 1000);
+        this.prune(now);
+        return 0;
+    }
+
+    /**
+     * Drops expired cooldowns so the map doesn't grow unbounded
+     */
+    private prune(now: number): void {
+        for (const [id, expiresAt] of this.expirations) {
+            if (expiresAt <= now) {
+                this.expirations.delete(id);
+            }
+        }
+    }
+}
@@ -0,0 +1,36 @@
+import type { IgnoredContext } from "../types";
+
+// Regions are matched in this order so that e.g. a spoiler inside a code fence is handled as code
+const CONTEXT_PATTERNS: Array<{ context: IgnoredContext; pattern: RegExp }> = [
+    { context: "code", pattern: /```[\s\S]*?(?:```|$)/g }, // ``` fenced blocks (unterminated runs to the end)
+    { context: "code", pattern: /(`{1,2})[^`\n]+?\1/g }, // `inline` and ``inline`` code
+    { context: "quote", pattern: /^ *>>> [\s\S]*$/gm }, // >>> quotes everything after it
+    { context: "quote", pattern: /^ *> .*$/gm }, // > single line quotes
+    { context: "spoiler", pattern: /\|\|[\s\S]+?\|\|/g },
+    { context: "suppressed", pattern: /<https?:\/\/[^\s>]+>/gi }, // <https://...> suppresses Discord embeds
+];
+
+export const ALL_IGNORED_CONTEXTS: readonly IgnoredContext[] = ["code", "spoiler", "quote", "suppressed"];
+
+/**
+ * Checks if a string names a known ignorable markdown context
+ */
+export function isIgnoredContext(value: string): value is IgnoredContext {
+    return (ALL_IGNORED_CONTEXTS as readonly string[]).includes(value);
+}
+
+/**
+ * Blanks out the regions of a Discord message that should not trigger previews.
+ * Regions are replaced with spaces so surrounding text keeps its position and word boundaries.
+ */
+export function stripIgnoredRegions(content: string, ignoredContexts: readonly IgnoredContext[]): string {
+    let stripped = content;
+
+    for (const { context, pattern } of CONTEXT_PATTERNS) {
+        if (ignoredContexts.includes(context)) {
+            stripped = stripped.replace(pattern, (region) => region.replace(/[^\n]/g, " "));
+        }
+    }
+
+    return stripped;
+}
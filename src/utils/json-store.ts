@@ -0,0 +1,60 @@
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { rename, writeFile } from "fs/promises";
+import path from "path";
+import { config } from "../config";
+import { logger } from "./logger";
+
+/**
+ * Persists a JSON document in the data directory so bot state survives restarts
+ */
+export class JsonStore<T> {
+    private readonly filePath: string;
+    private readonly defaults: T;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * @param fileName File name inside the data directory, e.g. "feeds.json"
+     * @param defaults Returned by load() when the file is missing or unreadable
+     */
+    constructor(fileName: string, defaults: T) {
+        this.filePath = path.join(config.storage.dataDir, fileName);
+        this.defaults = defaults;
+    }
+
+    /**
+     * Reads the stored document, falling back to the defaults
+     */
+    public load(): T {
+        if (!existsSync(this.filePath)) {
+            return structuredClone(this.defaults);
+        }
+
+        try {
+            return { ...structuredClone(this.defaults), ...(JSON.parse(readFileSync(this.filePath, "utf8")) as T) };
+        } catch (error) {
+            logger.error(`Failed to read ${this.filePath}, starting empty:`, error);
+            return structuredClone(this.defaults);
+        }
+    }
+
+    /**
+     * Writes the document. Writes are queued and go through a temporary file so a crash never leaves
+     * a half-written file behind.
+     */
+    public save(data: T): Promise<void> {
+        const contents = JSON.stringify(data, null, 2);
+
+        this.writeQueue = this.writeQueue
+            .then(async () => {
+                mkdirSync(path.dirname(this.filePath), { recursive: true });
+                const tempPath = `${this.filePath}.tmp`;
+                await writeFile(tempPath, contents, "utf8");
+                await rename(tempPath, this.filePath);
+            })
+            .catch((error) => {
+                logger.error(`Failed to write ${this.filePath}:`, error);
+            });
+
+        return this.writeQueue;
+    }
+}
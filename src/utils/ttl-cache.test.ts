@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { TtlCache } from "./ttl-cache";
+
+describe("TtlCache", () => {
+    afterEach(() => {
+        setSystemTime();
+    });
+
+    test("expires entries after the TTL", () => {
+        const cache = new TtlCache<number>(1000, 10);
+        setSystemTime(new Date("2026-01-01T00:00:00Z"));
+        cache.set("a", 1);
+
+        setSystemTime(new Date("2026-01-01T00:00:00.999Z"));
+        expect(cache.get("a")).toBe(1);
+
+        setSystemTime(new Date("2026-01-01T00:00:01Z"));
+        expect(cache.get("a")).toBeUndefined();
+    });
+
+    test("drops the oldest entries above the size limit", () => {
+        const cache = new TtlCache<number>(60000, 2);
+        cache.set("a", 1);
+        cache.set("b", 2);
+        cache.set("a", 3);
+        cache.set("c", 4);
+
+        expect(cache.get("b")).toBeUndefined();
+        expect(cache.get("a")).toBe(3);
+        expect(cache.get("c")).toBe(4);
+    });
+});
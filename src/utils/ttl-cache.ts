@@ -0,0 +1,54 @@
+/**
+ * In-memory cache whose entries expire after a fixed time, holding at most a fixed number of entries
+ */
+export class TtlCache<T> {
+    private readonly entries = new Map<string, { expiresAt: number; value: T }>();
+    private readonly ttl: number;
+    private readonly maxEntries: number;
+
+    /**
+     * @param ttl Entry lifetime in milliseconds
+     * @param maxEntries Entries kept at most, the oldest are dropped first
+     */
+    constructor(ttl: number, maxEntries: number) {
+        this.ttl = ttl;
+        this.maxEntries = maxEntries;
+    }
+
+    /**
+     * Returns the cached value, undefined when missing or expired
+     */
+    public get(key: string): T | undefined {
+        const entry = this.entries.get(key);
+
+        if (!entry || entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        return entry.value;
+    }
+
+    /**
+     * Removes a cached value
+     */
+    public delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    /**
+     * Caches a value, dropping expired entries and then the oldest ones above the size limit
+     */
+    public set(key: string, value: T): void {
+        const now = Date.now();
+
+        this.entries.delete(key);
+        this.entries.set(key, { expiresAt: now + this.ttl, value });
+
+        for (const [entryKey, entry] of this.entries) {
+            if (entry.expiresAt <= now || this.entries.size > this.maxEntries) {
+                this.entries.delete(entryKey);
+            }
+        }
+    }
+}